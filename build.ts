@@ -1,7 +1,11 @@
 await Bun.$`rm -rf dist/*`.catch(() => {});
 
-console.log("Building \x1b[36m\x1b[1mindex.js\x1b[0m...\n");
-await Bun.$`bun build src/index.ts --outfile=dist/index.js --target=node`;
+console.log(
+  "Building \x1b[36m\x1b[1mindex.js\x1b[0m, \x1b[36m\x1b[1mbun.js\x1b[0m, and \x1b[36m\x1b[1mvitest.js\x1b[0m...\n",
+);
+// Test runner integrations share the core through chunks, so they use the
+// same sequences and random number generator as the main entry point
+await Bun.$`bun build src/index.ts src/bun.ts src/vitest.ts --outdir=dist --splitting --target=node --external=bun:test --external=vitest`;
 
 console.log("Building \x1b[36m\x1b[1mindex.d.ts\x1b[0m...");
 await Bun.$`bun tsc -p tsconfig.build.json`;
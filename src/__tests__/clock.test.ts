@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import {
+  clock,
+  createClock,
+  dateBetween,
+  futureDate,
+  recentDate,
+  setFactoryClock,
+} from "../clock";
+import { createFactory } from "../factories";
+import { setSeed } from "../random";
+
+describe("Clock APIs", () => {
+  const NOW = new Date("2024-01-01T00:00:00.000Z");
+  const ONE_DAY = 24 * 60 * 60 * 1000;
+
+  afterEach(() => {
+    setFactoryClock();
+  });
+
+  describe("createClock", () => {
+    it("should return the pinned time", () => {
+      const pinned = createClock(NOW.toISOString());
+
+      expect(pinned.now()).toEqual(NOW);
+      expect(pinned.now()).not.toBe(pinned.now());
+    });
+
+    it("should call the function to get the current time", () => {
+      let time = 0;
+      const ticking = createClock(() => (time += 1000));
+
+      expect(ticking.now()).toEqual(new Date(1000));
+      expect(ticking.now()).toEqual(new Date(2000));
+    });
+
+    it("should use the system time by default", () => {
+      const before = Date.now();
+      const now = createClock().now().getTime();
+
+      expect(now).toBeGreaterThanOrEqual(before);
+      expect(now).toBeLessThanOrEqual(Date.now());
+    });
+  });
+
+  describe("clock", () => {
+    it("should use the global clock", () => {
+      setFactoryClock(NOW);
+
+      expect(clock.now()).toEqual(NOW);
+    });
+
+    it("should use the factory's clock while generating objects", () => {
+      setFactoryClock(0);
+      const factory = createFactory(
+        { createdAt: () => clock.now() },
+        { now: NOW },
+      );
+
+      expect(factory().createdAt).toEqual(NOW);
+      expect(clock.now()).toEqual(new Date(0));
+    });
+  });
+
+  describe("date helpers", () => {
+    it("should return dates relative to the clock", () => {
+      setFactoryClock(NOW);
+
+      for (let i = 0; i < 20; i++) {
+        const recent = recentDate(2).getTime();
+        expect(recent).toBeGreaterThanOrEqual(NOW.getTime() - 2 * ONE_DAY);
+        expect(recent).toBeLessThanOrEqual(NOW.getTime());
+
+        const future = futureDate().getTime();
+        expect(future).toBeGreaterThan(NOW.getTime());
+        expect(future).toBeLessThanOrEqual(NOW.getTime() + ONE_DAY);
+      }
+    });
+
+    it("should return dates between the range using the seed", () => {
+      setSeed(1);
+      const first = dateBetween("2024-01-01", "2024-02-01");
+      setSeed(1);
+      const second = dateBetween("2024-01-01", "2024-02-01");
+
+      expect(first).toEqual(second);
+      expect(first.getTime()).toBeGreaterThanOrEqual(Date.UTC(2024, 0, 1));
+      expect(first.getTime()).toBeLessThan(Date.UTC(2024, 1, 1));
+    });
+  });
+});
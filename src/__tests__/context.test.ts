@@ -0,0 +1,161 @@
+import { describe, expect, it } from "bun:test";
+import { clock, setFactoryClock } from "../clock";
+import { withFactoryContext } from "../context";
+import { createFactory } from "../factories";
+import { createMemoryAdapter } from "../persistence";
+import { random, setSeed } from "../random";
+import { defineFactories } from "../registry";
+import { resetFactoryState } from "../reset";
+import { createSequence, resetSequences } from "../sequences";
+import { unique } from "../unique";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("Context APIs", () => {
+  describe("withFactoryContext", () => {
+    it("should isolate sequences from the global state", () => {
+      const factory = createFactory({ id: createSequence() });
+      factory();
+
+      const inContext = withFactoryContext(() => factory.many(2));
+
+      expect(inContext).toEqual([{ id: 0 }, { id: 1 }]);
+      expect(factory()).toEqual({ id: 1 });
+    });
+
+    it("should keep concurrent contexts separate across awaits", async () => {
+      const factory = createFactory({ id: createSequence() });
+      const run = () =>
+        withFactoryContext(async () => {
+          const first = factory();
+          await tick();
+          const second = factory();
+          return [first.id, second.id];
+        });
+
+      expect(await Promise.all([run(), run()])).toEqual([
+        [0, 1],
+        [0, 1],
+      ]);
+    });
+
+    it("should isolate unique values", () => {
+      const factory = createFactory({ value: unique(() => "same") });
+      factory();
+
+      expect(withFactoryContext(() => factory())).toEqual({ value: "same" });
+      expect(() => factory()).toThrow("Failed to generate a unique value");
+    });
+
+    it("should use the seed and time from its options", () => {
+      const factory = createFactory({
+        value: () => random.int(0, 1000),
+        createdAt: () => clock.now(),
+      });
+      const options = { seed: 123, now: 0 };
+
+      const first = withFactoryContext(() => factory.many(3), options);
+      const second = withFactoryContext(() => factory.many(3), options);
+
+      expect(second).toEqual(first);
+      expect(first[0]!.createdAt).toEqual(new Date(0));
+    });
+
+    it("should not change the global seed or clock", () => {
+      const globalClock = clock.now();
+      const globalSeed = random.seed;
+      setFactoryClock(globalClock);
+
+      withFactoryContext(() => {
+        setSeed(globalSeed + 1);
+        setFactoryClock(0);
+        expect(clock.now()).toEqual(new Date(0));
+      });
+
+      expect(clock.now()).toEqual(globalClock);
+      expect(random.seed).toEqual(globalSeed);
+      setFactoryClock();
+    });
+  });
+
+  describe("fork", () => {
+    it("should have its own sequences", () => {
+      const factory = createFactory({ id: createSequence() });
+      const forked = factory.fork();
+      factory.many(2);
+
+      expect(forked.many(2)).toEqual([{ id: 0 }, { id: 1 }]);
+      expect(factory()).toEqual({ id: 2 });
+    });
+
+    it("should share its state with derived factories", () => {
+      const factory = createFactory({ id: createSequence(), admin: false })
+        .trait("admin", { admin: true })
+        .fork();
+
+      expect([factory(), factory.admin(), factory.with({})()]).toEqual([
+        { id: 0, admin: false },
+        { id: 1, admin: true },
+        { id: 2, admin: false },
+      ]);
+    });
+
+    it("should keep its context in create hooks", async () => {
+      const factory = createFactory<{ createdAt?: Date }>(
+        {},
+        { adapter: createMemoryAdapter() },
+      )
+        .afterCreate(async (object) => {
+          await tick();
+          return { ...object, createdAt: clock.now() };
+        })
+        .fork({ now: 0 });
+
+      expect(await factory.create()).toEqual({ createdAt: new Date(0) });
+    });
+
+    describe("resetting", () => {
+      const createForkedFactory = () =>
+        createFactory(
+          { id: createSequence(), value: () => random.int(0, 1e9) },
+          { seed: 1 },
+        ).fork();
+
+      it.each<[string, (factory: any) => void]>([
+        ["resetSequences(factory)", (factory) => resetSequences(factory)],
+        ["resetSequences()", () => resetSequences()],
+        ["resetFactoryState()", () => resetFactoryState()],
+      ])("should reset its sequences with %s", (_, reset) => {
+        const factory = createForkedFactory();
+        factory.many(2);
+
+        reset(factory);
+
+        expect(factory().id).toEqual(0);
+      });
+
+      it("should reset its sequences and generator with a registry", () => {
+        const factory = createForkedFactory();
+        const factories = defineFactories({ factory });
+        const first = factories.get("factory")();
+        factories.get("factory")();
+
+        factories.reset();
+
+        expect(factories.get("factory")()).toEqual(first);
+      });
+
+      it("should start over from its seed with resetFactoryState", () => {
+        const factory = createFactory({ value: () => random.int(0, 1e9) }).fork(
+          { seed: 1 },
+        );
+        const first = factory();
+        factory();
+
+        resetFactoryState();
+
+        expect(factory()).toEqual(first);
+      });
+    });
+  });
+});
@@ -1,6 +1,10 @@
-import { describe, expect, it } from "bun:test";
-import { createFactory } from "../factories";
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { append, mergeByIndex, mergeByKey, prepend } from "../arrays";
+import { createFactory, type Factory } from "../factories";
+import { createMemoryAdapter, type PersistenceAdapter } from "../persistence";
+import { random, setSeed } from "../random";
 import { createSequence } from "../sequences";
+import type { DeepPartial } from "../utils";
 
 describe("Factory APIs", () => {
   type User = {
@@ -146,6 +150,364 @@ describe("Factory APIs", () => {
       });
     });
 
+    describe("when the default values are derived from other properties", () => {
+      type Account = {
+        username: string;
+        email: string;
+        profile: { displayName: string };
+      };
+
+      it("should pass the object into function defaults", () => {
+        const factory = createFactory<Account>({
+          username: "user",
+          email: ({ username }) => `${username}@example.com`,
+          profile: {
+            displayName: ({ username }) => username.toUpperCase(),
+          },
+        });
+
+        expect(factory()).toEqual({
+          username: "user",
+          email: "user@example.com",
+          profile: { displayName: "USER" },
+        });
+      });
+
+      it("should resolve properties in dependency order", () => {
+        const factory = createFactory<Account>({
+          profile: ({ email }) => ({ displayName: email }),
+          email: ({ username }) => `${username}@example.com`,
+          username: "user",
+        });
+
+        expect(factory()).toEqual({
+          username: "user",
+          email: "user@example.com",
+          profile: { displayName: "user@example.com" },
+        });
+      });
+
+      it("should let nested function defaults read their siblings", () => {
+        type Preferences = {
+          prefs: { theme: string; darkMode: boolean; label: string };
+        };
+        const factory = createFactory<Preferences>({
+          prefs: {
+            label: (object) => `${object.prefs.theme}-${object.prefs.darkMode}`,
+            darkMode: (object) => object.prefs.theme === "dark",
+            theme: "dark",
+          },
+        });
+
+        expect(factory()).toEqual({
+          prefs: { theme: "dark", darkMode: true, label: "dark-true" },
+        });
+        expect(factory({ prefs: { theme: "light" } })).toEqual({
+          prefs: { theme: "light", darkMode: false, label: "light-false" },
+        });
+      });
+
+      it("should derive values from overrides", () => {
+        const factory = createFactory<Account>({
+          username: "user",
+          email: ({ username }) => `${username}@example.com`,
+          profile: { displayName: "display" },
+        });
+
+        expect(factory({ username: "override" })).toEqual({
+          username: "override",
+          email: "override@example.com",
+          profile: { displayName: "display" },
+        });
+      });
+
+      it("should not call function defaults that are overridden", () => {
+        const idSequence = createSequence();
+        const factory = createFactory<User>({
+          id: idSequence,
+          username: "user",
+        });
+
+        factory({ id: 100 });
+
+        expect(idSequence.current).toEqual(0);
+      });
+
+      it("should throw an error when defaults depend on each other", () => {
+        const factory = createFactory<Account>({
+          username: ({ email }) => email.split("@")[0]!,
+          email: ({ username }) => `${username}@example.com`,
+          profile: { displayName: "display" },
+        });
+
+        expect(() => factory()).toThrow(
+          "Circular dependency detected between factory defaults: username -> email -> username",
+        );
+      });
+
+      it("should throw an error when nested defaults depend on each other", () => {
+        const factory = createFactory<{ prefs: { a: string; b: string } }>({
+          prefs: {
+            a: (object) => object.prefs.b,
+            b: (object) => object.prefs.a,
+          },
+        });
+
+        expect(() => factory()).toThrow(
+          "Circular dependency detected between factory defaults: prefs.a -> prefs.b -> prefs.a",
+        );
+      });
+
+      it("should not throw when one of the properties in a cycle is overridden", () => {
+        const factory = createFactory<Account>({
+          username: ({ email }) => email.split("@")[0]!,
+          email: ({ username }) => `${username}@example.com`,
+          profile: { displayName: "display" },
+        });
+
+        expect(factory({ email: "override@example.com" })).toEqual({
+          username: "override",
+          email: "override@example.com",
+          profile: { displayName: "display" },
+        });
+      });
+    });
+
+    describe("transient attributes", () => {
+      type Author = { name: string; postIds: number[] };
+      type AuthorTransient = { postCount: number };
+
+      const factory = createFactory<Author, AuthorTransient>(
+        {
+          name: "author",
+          postIds: ({ postCount }) =>
+            Array.from({ length: postCount }, (_, i) => i),
+        },
+        { transient: { postCount: 1 } },
+      );
+
+      it("should use the default transient values", () => {
+        expect(factory()).toEqual({ name: "author", postIds: [0] });
+      });
+
+      it("should use transient values passed alongside overrides", () => {
+        expect(factory({ name: "override", postCount: 3 })).toEqual({
+          name: "override",
+          postIds: [0, 1, 2],
+        });
+      });
+
+      it("should not include transient values in the generated object", () => {
+        expect(factory({ postCount: 0 })).not.toHaveProperty("postCount");
+      });
+
+      it("should require default transient values", () => {
+        // @ts-expect-error: Missing the transient option
+        createFactory<{ a: number }, { k: boolean }>({ a: 1 });
+        // @ts-expect-error: Missing default transient values
+        createFactory<{ a: number }, { k: boolean }>({ a: 1 }, { seed: 1 });
+        createFactory<{ a: number }, { k: boolean }>(
+          { a: 1 },
+          { transient: { k: false } },
+        );
+      });
+
+      it("should require default values for optional transient attributes", () => {
+        // @ts-expect-error: Missing the transient option
+        createFactory<{ a: number }, { k?: boolean }>({ a: 1 });
+        // @ts-expect-error: Missing the default value of `l`
+        createFactory<{ a: number }, { k?: boolean; l?: string }>(
+          { a: 1 },
+          { transient: { k: false } },
+        );
+
+        const factory = createFactory<{ a: number }, { k?: boolean }>(
+          { a: 1 },
+          { transient: { k: undefined } },
+        );
+
+        expect(factory({ k: true })).toEqual({ a: 1 });
+      });
+
+      it("should pass transient values to traits and associations", () => {
+        const withAuthor = factory
+          .trait("prolific", {
+            name: ({ postCount }) => `prolific-${postCount}`,
+          })
+          .associate("prefix", (prefix: string) => ({
+            name: ({ postCount }) => `${prefix}-${postCount}`,
+          }));
+
+        expect(withAuthor.prolific.many(1, { postCount: 2 })).toEqual([
+          { name: "prolific-2", postIds: [0, 1] },
+        ]);
+        expect(withAuthor.with({ prefix: "with" })({ postCount: 2 })).toEqual({
+          name: "with-2",
+          postIds: [0, 1],
+        });
+      });
+    });
+
+    describe("when overriding arrays", () => {
+      type LineItem = { sku: string; quantity: number };
+      type Order = { tags: string[]; items: LineItem[] };
+
+      const factory = createFactory<Order>({
+        tags: () => ["default"],
+        items: [
+          { sku: "a", quantity: 1 },
+          { sku: "b", quantity: 1 },
+        ],
+      });
+
+      it("should replace arrays by default", () => {
+        expect(factory({ tags: ["override"] }).tags).toEqual(["override"]);
+      });
+
+      it("should merge arrays using the override's strategy", () => {
+        const actual = factory({
+          tags: append(["override"]),
+          items: mergeByKey("sku", [{ sku: "b", quantity: 5 }]),
+        });
+
+        expect(actual).toEqual({
+          tags: ["default", "override"],
+          items: [
+            { sku: "a", quantity: 1 },
+            { sku: "b", quantity: 5 },
+          ],
+        });
+      });
+
+      it("should allow partial items when merging by index", () => {
+        const actual = factory({ items: mergeByIndex([{}, { quantity: 5 }]) });
+
+        expect(actual.items).toEqual([
+          { sku: "a", quantity: 1 },
+          { sku: "b", quantity: 5 },
+        ]);
+      });
+
+      it("should only allow partial items when merging items", () => {
+        expectTypeOf<Parameters<typeof append<LineItem>>[0]>().toEqualTypeOf<
+          LineItem[]
+        >();
+        expectTypeOf<
+          Parameters<typeof mergeByIndex<LineItem>>[0]
+        >().toEqualTypeOf<Array<DeepPartial<LineItem>>>();
+
+        // @ts-expect-error: Appended items must be complete
+        factory({ items: append([{ sku: "c" }]) });
+        // @ts-expect-error: Prepended items must be complete
+        factory({ items: prepend([{ quantity: 5 }]) });
+      });
+
+      it("should merge arrays from traits with function defaults", () => {
+        const traitFactory = factory.trait("test", {
+          tags: append(["trait"]),
+        });
+
+        expect(traitFactory.test().tags).toEqual(["default", "trait"]);
+      });
+    });
+
+    describe("when generated objects are mutated", () => {
+      type Post = {
+        tags: string[];
+        comments: Array<{ text: string; likes: string[] }>;
+        meta: { history: string[] };
+      };
+
+      const factory = createFactory<Post>({
+        tags: [],
+        comments: [{ text: "first", likes: [] }],
+        meta: { history: [] },
+      }).trait("tagged", { tags: ["trait"] });
+
+      it("should not leak static array defaults into later objects", () => {
+        factory().tags.push("leak");
+
+        expect(factory().tags).toEqual([]);
+      });
+
+      it("should not leak nested values into later objects", () => {
+        const post = factory();
+        post.comments[0]!.likes.push("leak");
+        post.comments.push({ text: "leak", likes: [] });
+        post.meta.history.push("leak");
+
+        expect(factory()).toEqual({
+          tags: [],
+          comments: [{ text: "first", likes: [] }],
+          meta: { history: [] },
+        });
+      });
+
+      it("should not leak trait defaults into later objects", () => {
+        factory.tagged().tags.push("leak");
+
+        expect(factory.tagged().tags).toEqual(["trait"]);
+      });
+
+      it("should not share overrides between objects from many", () => {
+        const [first, second] = factory.many(2, { tags: ["override"] });
+        first!.tags.push("leak");
+
+        expect(second!.tags).toEqual(["override"]);
+      });
+
+      it("should deeply freeze objects when freeze is enabled", () => {
+        const frozenFactory = createFactory<Post>(
+          {
+            tags: [],
+            comments: [{ text: "first", likes: [] }],
+            meta: { history: [] },
+          },
+          { freeze: true },
+        );
+
+        const post = frozenFactory();
+
+        expect(() => post.tags.push("mutation")).toThrow();
+        expect(() => post.comments[0]!.likes.push("mutation")).toThrow();
+        expect(() => {
+          post.meta.history = [];
+        }).toThrow();
+      });
+
+      it("should not freeze class instances the build doesn't own", () => {
+        class Owner {
+          constructor(public name: string) {}
+        }
+        const sharedOwner = new Owner("shared");
+        const frozenFactory = createFactory(
+          { owner: sharedOwner, fallback: sharedOwner },
+          { freeze: true },
+        );
+        const owner = new Owner("override");
+
+        const post = frozenFactory({ owner });
+
+        expect(Object.isFrozen(post)).toBe(true);
+        expect(Object.isFrozen(owner)).toBe(false);
+        expect(Object.isFrozen(sharedOwner)).toBe(false);
+      });
+
+      it("should freeze objects after the afterBuild hooks are called", () => {
+        const frozenFactory = createFactory<User>(
+          { id: 0, username: "default" },
+          { freeze: true },
+        ).afterBuild((user) => {
+          user.id = 1;
+        });
+
+        const user = frozenFactory();
+
+        expect(user.id).toEqual(1);
+        expect(Object.isFrozen(user)).toBe(true);
+      });
+    });
+
     describe("traits", () => {
       const DEFAULT_ID = 0;
       const DEFAULT_USERNAME = "default";
@@ -189,6 +551,164 @@ describe("Factory APIs", () => {
 
         expect(actual).toEqual(expected);
       });
+
+      it.each([
+        "create",
+        "build",
+        "graph",
+        "many",
+        "with",
+        "extend",
+        "fork",
+        "traits",
+        "arbitrary",
+        "toString",
+      ])("should throw when a trait is named %p", (name) => {
+        expect(() => factory.trait(name, {})).toThrow(
+          `Cannot add a trait named "${name}", the name is reserved for the factory's "${name}" property.`,
+        );
+      });
+
+      it("should allow replacing a trait with the same name", () => {
+        const replaced = factory.trait("test", { username: "replaced" });
+
+        expect(replaced.test().username).toEqual("replaced");
+      });
+
+      describe("combining traits", () => {
+        type Account = {
+          id: number;
+          role: string;
+          subscribed: boolean;
+          permissions: string[];
+        };
+
+        const accountFactory = createFactory<Account>({
+          id: 0,
+          role: "user",
+          subscribed: true,
+          permissions: [],
+        })
+          .trait("admin", { role: "admin", permissions: ["read"] })
+          .trait("unsubscribed", { subscribed: false })
+          .trait("owner", { permissions: ["*"] }, { extends: ["admin"] });
+
+        it("should apply multiple traits in order", () => {
+          expect(accountFactory.traits("admin", "unsubscribed")()).toEqual({
+            id: 0,
+            role: "admin",
+            subscribed: false,
+            permissions: ["read"],
+          });
+          expect(accountFactory.traits("owner", "admin")()).toEqual({
+            id: 0,
+            role: "admin",
+            subscribed: true,
+            permissions: ["read"],
+          });
+        });
+
+        it("should apply overrides over every trait", () => {
+          const actual = accountFactory
+            .traits("admin", "unsubscribed")
+            .many(2, { id: 1 });
+
+          expect(actual).toEqual([
+            { id: 1, role: "admin", subscribed: false, permissions: ["read"] },
+            { id: 1, role: "admin", subscribed: false, permissions: ["read"] },
+          ]);
+        });
+
+        it("should apply extended traits before the trait itself", () => {
+          expect(accountFactory.owner()).toEqual({
+            id: 0,
+            role: "admin",
+            subscribed: true,
+            permissions: ["*"],
+          });
+        });
+
+        it("should call the hooks of every trait in order", () => {
+          const calls: string[] = [];
+          const factory = createFactory<User>({ id: 0, username: "default" })
+            .afterBuild(() => void calls.push("factory"))
+            .trait("a", {}, { afterBuild: () => void calls.push("a") })
+            .trait("b", {}, { afterBuild: () => void calls.push("b") })
+            .trait("c", {}, { extends: ["a"] });
+
+          factory.traits("b", "c")();
+
+          expect(calls).toEqual(["factory", "b", "a"]);
+        });
+
+        it("should throw when traits extend each other", () => {
+          const factory = createFactory<User>({ id: 0, username: "default" })
+            .trait("a", {}, { extends: ["b" as never] })
+            .trait("b", {}, { extends: ["a"] });
+
+          expect(() => factory.a()).toThrow(
+            "Circular trait extension detected: a -> b -> a",
+          );
+        });
+
+        it("should only accept registered trait names", () => {
+          type Actual = Parameters<typeof accountFactory.traits>[number];
+          type Expected = "admin" | "unsubscribed" | "owner";
+
+          expectTypeOf<Actual>().toEqualTypeOf<Expected>();
+        });
+      });
+
+      describe("parameterized traits", () => {
+        const factory = createFactory<User>({
+          id: createSequence(),
+          username: "default",
+        })
+          .trait("named", (username: string) => ({ username }))
+          .trait("static", { username: "static" });
+
+        it("should apply the defaults returned for the arguments", () => {
+          expect(factory.named("first")()).toEqual({
+            id: 0,
+            username: "first",
+          });
+          expect(factory.named("second").many(2)).toEqual([
+            { id: 1, username: "second" },
+            { id: 2, username: "second" },
+          ]);
+        });
+
+        it("should apply overrides over the trait's defaults", () => {
+          const actual = factory.named("trait")({
+            id: 10,
+            username: "override",
+          });
+
+          expect(actual).toEqual({ id: 10, username: "override" });
+        });
+
+        it("should apply the traits it extends", () => {
+          const factory = createFactory<User>({ id: 0, username: "default" })
+            .trait("admin", { id: 1 })
+            .trait("namedAdmin", (username: string) => ({ username }), {
+              extends: ["admin"],
+            });
+
+          expect(factory.namedAdmin("admin")()).toEqual({
+            id: 1,
+            username: "admin",
+          });
+        });
+
+        it("should preserve the argument types", () => {
+          expectTypeOf<Parameters<typeof factory.named>>().toEqualTypeOf<
+            [username: string]
+          >();
+          expectTypeOf<
+            Parameters<typeof factory.traits>[number]
+          >().toEqualTypeOf<"static">();
+        });
+      });
     });
 
     describe(".many()", () => {
@@ -230,6 +750,80 @@ describe("Factory APIs", () => {
         ]);
       });
 
+      it("should apply each override to the item at the same index", () => {
+        const factory = createFactory<User>({
+          id: createSequence(),
+          username: "default",
+        });
+
+        const actual = factory.many(3, [
+          { username: "first" },
+          { username: "second" },
+        ]);
+
+        expect(actual).toEqual([
+          { id: 0, username: "first" },
+          { id: 1, username: "second" },
+          { id: 2, username: "default" },
+        ]);
+      });
+
+      it("should apply the overrides returned by a function for each index", () => {
+        const factory = createFactory<User>({
+          id: createSequence(),
+          username: "default",
+        });
+
+        const actual = factory.many(2, (i) => ({ username: `user-${i}` }));
+
+        expect(actual).toEqual([
+          { id: 0, username: "user-0" },
+          { id: 1, username: "user-1" },
+        ]);
+      });
+
+      it("should apply per-item overrides to traits and associations", () => {
+        const factory = createFactory<User>({
+          id: 0,
+          username: "default",
+        })
+          .trait("test", { username: "trait" })
+          .associate("id", (id: number) => ({ id }));
+
+        expect(factory.test.many(2, [{}, { username: "override" }])).toEqual([
+          { id: 0, username: "trait" },
+          { id: 0, username: "override" },
+        ]);
+        expect(
+          factory.with({ id: 5 }).many(2, (i) => ({ username: `user-${i}` })),
+        ).toEqual([
+          { id: 5, username: "user-0" },
+          { id: 5, username: "user-1" },
+        ]);
+      });
+
+      it("should not allow more overrides than items", () => {
+        const factory = createFactory<User>({ id: 0, username: "default" });
+
+        // @ts-expect-error: Expected at most 1 overrides, but got 2
+        factory.many(1, [{ username: "first" }, { username: "second" }]);
+      });
+
+      it("should persist items with different overrides using createMany", async () => {
+        const adapter = createMemoryAdapter<User>();
+        const factory = createFactory<User>(
+          { id: createSequence(), username: "default" },
+          { adapter },
+        );
+
+        await factory.createMany(2, [{ username: "first" }]);
+
+        expect(adapter.records).toEqual([
+          { id: 0, username: "first" },
+          { id: 1, username: "default" },
+        ]);
+      });
+
       it("should generate many objects from a trait with overrides", () => {
         const factory = createFactory<User>({
           id: createSequence(),
@@ -243,6 +837,69 @@ describe("Factory APIs", () => {
       });
     });
 
+    describe(".extend()", () => {
+      type AdminUser = User & { permissions: string[] };
+
+      const userFactory = createFactory<User>({
+        id: createSequence(),
+        username: "default",
+      })
+        .trait("named", { username: "named" })
+        .associate("name", (username: string) => ({ username }));
+
+      it("should inherit default values, traits, and associations", () => {
+        const adminFactory = userFactory.extend<AdminUser>({
+          permissions: ["*"],
+        });
+
+        expect(adminFactory()).toEqual({
+          id: expect.any(Number),
+          username: "default",
+          permissions: ["*"],
+        });
+        expect(adminFactory.named()).toMatchObject({
+          username: "named",
+          permissions: ["*"],
+        });
+        expect(adminFactory.with({ name: "associated" })()).toMatchObject({
+          username: "associated",
+          permissions: ["*"],
+        });
+      });
+
+      it("should replace inherited default values", () => {
+        const adminFactory = userFactory.extend<AdminUser>({
+          username: "admin",
+          permissions: [],
+        });
+
+        expect(adminFactory()).toMatchObject({
+          username: "admin",
+          permissions: [],
+        });
+      });
+
+      it("should not add the child's traits to the parent", () => {
+        const adminFactory = userFactory
+          .extend<AdminUser>({ permissions: [] })
+          .trait("superAdmin", { permissions: ["*"] });
+
+        expect(adminFactory.superAdmin().permissions).toEqual(["*"]);
+        expect(userFactory).not.toHaveProperty("superAdmin");
+        expect(userFactory()).not.toHaveProperty("permissions");
+      });
+
+      it("should return a factory for the subtype", () => {
+        const adminFactory = userFactory.extend<AdminUser>({
+          permissions: [],
+        });
+
+        expectTypeOf(adminFactory.named()).toEqualTypeOf<AdminUser>();
+        // @ts-expect-error: Missing a default for the subtype's property
+        userFactory.extend<AdminUser>({});
+      });
+    });
+
     describe("associations", () => {
       type Post = { id: number; userId: number };
 
@@ -266,6 +923,503 @@ describe("Factory APIs", () => {
           userId: user.id,
         });
       });
+
+      describe("when the association has a build function", () => {
+        type Post = { id: number; userId: number };
+
+        const createFactories = () => {
+          const userFactory = createFactory<User>({
+            id: createSequence((i) => i + 1),
+            username: "default",
+          });
+          const postFactory = createFactory<Post>({
+            id: 0,
+            userId: 0,
+          }).associate("user", (user: User) => ({ userId: user.id }), {
+            build: userFactory,
+          });
+          return { userFactory, postFactory };
+        };
+
+        it("should build a new associated object for each object", () => {
+          const { postFactory } = createFactories();
+
+          expect(postFactory.many(2)).toEqual([
+            { id: 0, userId: 1 },
+            { id: 0, userId: 2 },
+          ]);
+        });
+
+        it("should not build the associated object when one is passed", () => {
+          const { postFactory } = createFactories();
+          const user: User = { id: 10, username: "user" };
+
+          expect(postFactory.with({ user })()).toEqual({ id: 0, userId: 10 });
+          expect(postFactory()).toEqual({ id: 0, userId: 1 });
+        });
+
+        it("should apply overrides over the associated values", () => {
+          const { postFactory } = createFactories();
+
+          expect(postFactory({ userId: 5 })).toEqual({ id: 0, userId: 5 });
+        });
+
+        it("should still build the associated object when overrides replace its values", () => {
+          const { postFactory } = createFactories();
+
+          expect(postFactory.build({ userId: 5 })).toEqual({
+            object: { id: 0, userId: 5 },
+            associations: { user: { id: 1, username: "default" } },
+          });
+        });
+
+        it("should return the associated objects from build", () => {
+          const { postFactory } = createFactories();
+
+          const actual = postFactory.build();
+
+          expect(actual).toEqual({
+            object: { id: 0, userId: 1 },
+            associations: { user: { id: 1, username: "default" } },
+          });
+          expectTypeOf(actual.associations).toEqualTypeOf<{ user?: User }>();
+        });
+
+        it("should return associations passed into with from build", () => {
+          const { postFactory } = createFactories();
+          const user: User = { id: 10, username: "user" };
+
+          expect(postFactory.with({ user }).build().associations).toEqual({
+            user,
+          });
+        });
+      });
+
+      describe("when chained with traits", () => {
+        type Post = { id: number; userId: number; status: string };
+
+        const postFactory = createFactory<Post>({
+          id: 0,
+          userId: 0,
+          status: "draft",
+        })
+          .associate("user", (user: User) => ({ userId: user.id }))
+          .associate("status", (status: string) => ({ status }))
+          .trait("published", { status: "published" })
+          .trait("withStatus", (status: string) => ({ status }));
+        const user: User = { id: 1, username: "user" };
+
+        it.each([
+          ["trait then with", postFactory.published.with({ user })],
+          ["with then trait", postFactory.with({ user }).published],
+          [
+            "parameterized trait then with",
+            postFactory.withStatus("published").with({ user }),
+          ],
+          [
+            "with then parameterized trait",
+            postFactory.with({ user }).withStatus("published"),
+          ],
+          ["traits then with", postFactory.traits("published").with({ user })],
+          ["with then traits", postFactory.with({ user }).traits("published")],
+          [
+            "with then trait then with",
+            postFactory.with({ status: "draft" }).published.with({ user }),
+          ],
+        ])("should apply both: %s", (_, factory) => {
+          expect(factory()).toEqual({
+            id: 0,
+            userId: 1,
+            status: "published",
+          });
+          expect(factory.many(2, { id: 2 })).toEqual([
+            { id: 2, userId: 1, status: "published" },
+            { id: 2, userId: 1, status: "published" },
+          ]);
+        });
+
+        it("should apply later traits and associations over earlier ones", () => {
+          expect(postFactory.published.with({ status: "archived" })()).toEqual({
+            id: 0,
+            userId: 0,
+            status: "archived",
+          });
+          expect(postFactory.with({ status: "archived" }).published()).toEqual({
+            id: 0,
+            userId: 0,
+            status: "published",
+          });
+        });
+
+        it("should keep traits added after applying associations", () => {
+          const factory = postFactory
+            .with({ user })
+            .trait("archived", { status: "archived" });
+
+          expect(factory.archived()).toEqual({
+            id: 0,
+            userId: 1,
+            status: "archived",
+          });
+        });
+
+        it("should keep the factory's type", () => {
+          expectTypeOf(postFactory.published.with({ user })).toEqualTypeOf<
+            typeof postFactory
+          >();
+          expectTypeOf(postFactory.with({ user }).published).toEqualTypeOf<
+            typeof postFactory
+          >();
+          expectTypeOf(postFactory.withStatus("").traits()).toEqualTypeOf<
+            typeof postFactory
+          >();
+        });
+      });
+    });
+
+    describe("seeds", () => {
+      type Player = { name: string; score: number };
+      const defaults = {
+        name: () => random.pick(["Alice", "Bob", "Charlie"]),
+        score: () => random.int(0, 100),
+      };
+
+      it("should generate the same objects for the same factory seed", () => {
+        const factory1 = createFactory<Player>(defaults, { seed: 123 });
+        const factory2 = createFactory<Player>(defaults, { seed: 123 });
+
+        expect(factory1.many(5)).toEqual(factory2.many(5));
+      });
+
+      it("should share the factory's seed with its traits", () => {
+        const factory1 = createFactory<Player>(defaults, { seed: 123 }).trait(
+          "test",
+          {},
+        );
+        const factory2 = createFactory<Player>(defaults, { seed: 123 });
+
+        expect([factory1(), factory1.test()]).toEqual(factory2.many(2));
+      });
+
+      it("should generate the same objects for the same global seed", () => {
+        const factory = createFactory<Player>(defaults);
+
+        setSeed(123);
+        const expected = factory.many(5);
+        setSeed(123);
+        const actual = factory.many(5);
+
+        expect(actual).toEqual(expected);
+      });
+    });
+
+    describe("constructors", () => {
+      class UserModel {
+        constructor(readonly attributes: User) {}
+
+        get displayName(): string {
+          return `${this.attributes.username}#${this.attributes.id}`;
+        }
+      }
+
+      it("should return instances of the class", () => {
+        const factory = createFactory(UserModel, {
+          id: 0,
+          username: "default",
+        });
+
+        const actual = factory({ username: "override" });
+
+        expectTypeOf(factory).toEqualTypeOf<
+          Factory<User, undefined, {}, {}, UserModel>
+        >();
+        expect(actual).toBeInstanceOf(UserModel);
+        expect(actual.displayName).toEqual("override#0");
+      });
+
+      it("should pass the attributes into a mapper function", () => {
+        const factory = createFactory((user: User) => new UserModel(user), {
+          id: 0,
+          username: "default",
+        });
+
+        expect(factory().displayName).toEqual("default#0");
+      });
+
+      it("should construct objects from traits, many, and associations", () => {
+        const factory = createFactory(UserModel, {
+          id: createSequence(),
+          username: "default",
+        })
+          .trait("test", { username: "trait" })
+          .associate("name", (username: string) => ({ username }));
+
+        const actual = [
+          ...factory.test.many(2),
+          factory.with({ name: "associated" })(),
+        ];
+
+        expect(actual.map((user) => user.displayName)).toEqual([
+          "trait#0",
+          "trait#1",
+          "associated#2",
+        ]);
+        for (const user of actual) expect(user).toBeInstanceOf(UserModel);
+      });
+
+      it("should pass the instance to hooks and the adapter", async () => {
+        const adapter = createMemoryAdapter<UserModel>();
+        const factory = createFactory(
+          UserModel,
+          { id: 0, username: "default" },
+          { adapter },
+        ).afterBuild((user) => new UserModel({ ...user.attributes, id: 1 }));
+
+        const actual = await factory.create();
+
+        expect(actual.displayName).toEqual("default#1");
+        expect(adapter.records).toEqual([actual]);
+      });
+    });
+
+    describe("hooks", () => {
+      it("should replace the object with the one returned from afterBuild", () => {
+        const factory = createFactory<User>({
+          id: 0,
+          username: "Default",
+        }).afterBuild((user) => ({
+          ...user,
+          username: user.username.toLowerCase(),
+        }));
+
+        expect(factory({ username: "OVERRIDE" })).toEqual({
+          id: 0,
+          username: "override",
+        });
+      });
+
+      it("should keep the object when afterBuild doesn't return anything", () => {
+        const factory = createFactory<User>({
+          id: 0,
+          username: "default",
+        }).afterBuild((user) => {
+          user.id = 1;
+        });
+
+        expect(factory()).toEqual({ id: 1, username: "default" });
+      });
+
+      it("should not add hooks to the original factory", () => {
+        const factory = createFactory<User>({ id: 0, username: "default" });
+        factory.afterBuild((user) => ({ ...user, id: 1 }));
+
+        expect(factory()).toEqual({ id: 0, username: "default" });
+      });
+
+      it("should pass transient attributes to afterBuild", () => {
+        const factory = createFactory<User, { suffix: string }>(
+          { id: 0, username: "default" },
+          { transient: { suffix: "" } },
+        ).afterBuild((user, { suffix }) => ({
+          ...user,
+          username: user.username + suffix,
+        }));
+
+        expect(factory({ suffix: "-suffix" })).toEqual({
+          id: 0,
+          username: "default-suffix",
+        });
+      });
+
+      it("should call factory hooks then trait hooks, in the order they were added", () => {
+        const calls: string[] = [];
+        const factory = createFactory<User>({ id: 0, username: "default" })
+          .afterBuild(() => void calls.push("first"))
+          .trait("test", {}, { afterBuild: () => void calls.push("trait") })
+          .afterBuild(() => void calls.push("second"));
+
+        factory.test();
+
+        expect(calls).toEqual(["first", "second", "trait"]);
+      });
+
+      it("should only call trait hooks when using the trait", () => {
+        const calls: string[] = [];
+        const factory = createFactory<User>({
+          id: 0,
+          username: "default",
+        }).trait("test", {}, { afterBuild: () => void calls.push("trait") });
+
+        factory();
+        factory.many(2);
+
+        expect(calls).toEqual([]);
+      });
+
+      it("should call create hooks around persisting the object", async () => {
+        const calls: string[] = [];
+        const factory = createFactory<User>(
+          { id: 0, username: "default" },
+          {
+            adapter: {
+              insert: (user) => {
+                calls.push(`insert:${user.username}`);
+                return { ...user, id: 1 };
+              },
+            },
+          },
+        )
+          .afterBuild(() => void calls.push("afterBuild"))
+          .beforeCreate(async (user) => {
+            calls.push("beforeCreate");
+            return { ...user, username: "before" };
+          })
+          .afterCreate(async (user) => {
+            calls.push(`afterCreate:${user.id}`);
+            return { ...user, username: "after" };
+          });
+
+        const actual = await factory.create();
+
+        expect(calls).toEqual([
+          "afterBuild",
+          "beforeCreate",
+          "insert:before",
+          "afterCreate:1",
+        ]);
+        expect(actual).toEqual({ id: 1, username: "after" });
+      });
+
+      it("should call create hooks for every object in createMany", async () => {
+        const adapter = createMemoryAdapter<User>();
+        const factory = createFactory<User>(
+          { id: createSequence(), username: "default" },
+          { adapter },
+        )
+          .beforeCreate((user) => ({ ...user, username: `user-${user.id}` }))
+          .trait(
+            "test",
+            {},
+            { afterCreate: (user) => ({ ...user, id: user.id * 10 }) },
+          );
+
+        const actual = await factory.test.createMany(2);
+
+        expect(adapter.records).toEqual([
+          { id: 0, username: "user-0" },
+          { id: 1, username: "user-1" },
+        ]);
+        expect(actual).toEqual([
+          { id: 0, username: "user-0" },
+          { id: 10, username: "user-1" },
+        ]);
+      });
+    });
+
+    describe(".create()", () => {
+      it("should persist the generated object and return the stored record", async () => {
+        const adapter = createMemoryAdapter<User>();
+        const factory = createFactory<User>(
+          { id: createSequence(), username: "default" },
+          { adapter },
+        );
+
+        const actual = await factory.create({ username: "override" });
+
+        expect(actual).toEqual({ id: 0, username: "override" });
+        expect(adapter.records).toEqual([actual]);
+      });
+
+      it("should resolve to the record returned by the adapter", async () => {
+        const adapter: PersistenceAdapter<User> = {
+          insert: async (user) => ({ ...user, id: 100 }),
+        };
+        const factory = createFactory<User>(
+          { id: 0, username: "default" },
+          { adapter },
+        );
+
+        const actual = await factory.create();
+
+        expect(actual).toEqual({ id: 100, username: "default" });
+      });
+
+      it("should persist objects generated from a trait", async () => {
+        const adapter = createMemoryAdapter<User>();
+        const factory = createFactory<User>(
+          { id: 0, username: "default" },
+          { adapter },
+        ).trait("test", { username: "trait" });
+
+        const actual = await factory.test.create();
+
+        expect(actual).toEqual({ id: 0, username: "trait" });
+        expect(adapter.records).toEqual([actual]);
+      });
+
+      it("should persist objects generated with associations", async () => {
+        type Post = { id: number; userId: number };
+        const adapter = createMemoryAdapter<Post>();
+        const postFactory = createFactory<Post>(
+          { id: 0, userId: 0 },
+          { adapter },
+        ).associate("user", (user: User) => ({ userId: user.id }));
+
+        const actual = await postFactory
+          .with({ user: { id: 5, username: "user" } })
+          .create();
+
+        expect(actual).toEqual({ id: 0, userId: 5 });
+        expect(adapter.records).toEqual([actual]);
+      });
+
+      it("should reject when the factory doesn't have an adapter", async () => {
+        const factory = createFactory<User>({ id: 0, username: "default" });
+
+        await expect(factory.create()).rejects.toThrow(
+          "Cannot create objects without a persistence adapter",
+        );
+      });
+    });
+
+    describe(".createMany()", () => {
+      it("should persist many objects using insertMany", async () => {
+        const adapter = createMemoryAdapter<User>();
+        const factory = createFactory<User>(
+          { id: createSequence(), username: "default" },
+          { adapter },
+        );
+
+        const actual = await factory.createMany(2, { username: "override" });
+
+        expect(actual).toEqual([
+          { id: 0, username: "override" },
+          { id: 1, username: "override" },
+        ]);
+        expect(adapter.records).toEqual(actual);
+      });
+
+      it("should fallback to inserting objects one at a time", async () => {
+        const inserted: User[] = [];
+        const adapter: PersistenceAdapter<User> = {
+          insert: (user) => {
+            inserted.push(user);
+            return user;
+          },
+        };
+        const factory = createFactory<User>(
+          { id: createSequence(), username: "default" },
+          { adapter },
+        );
+
+        const actual = await factory.createMany(2);
+
+        expect(actual).toEqual([
+          { id: 0, username: "default" },
+          { id: 1, username: "default" },
+        ]);
+        expect(inserted).toEqual(actual);
+      });
     });
   });
 });
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { createFactory } from "../factories";
+import { fake, type FakeAddress } from "../fake";
+import { setSeed } from "../random";
+
+describe("Fake APIs", () => {
+  afterEach(() => {
+    setSeed();
+  });
+
+  describe("fake", () => {
+    it.each<[keyof typeof fake, RegExp]>([
+      ["fullName", /^[A-Z][a-z]+ [A-Z][a-z]+$/],
+      ["username", /^[a-z]+\.[a-z]+\d{1,2}$/],
+      ["email", /^[a-z]+\.[a-z]+\d{1,2}@example\.(com|org|net)$/],
+      [
+        "uuid",
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      ],
+      ["words", /^[a-z]+( [a-z]+){2,4}$/],
+      ["sentence", /^[A-Z][a-z]*( [a-z]+){4,9}\.$/],
+      ["url", /^https:\/\/[a-z]+\.example\.(com|org|net)\/[a-z]+$/],
+      ["phoneNumber", /^\(\d{3}\) 555-01\d{2}$/],
+      ["streetAddress", /^\d{1,4} [A-Z][a-z]+ [A-Z][a-z]+$/],
+      ["zipCode", /^\d{5}$/],
+      ["hexColor", /^#[0-9a-f]{6}$/],
+    ])("should generate a valid %s", (name, pattern) => {
+      for (let i = 0; i < 20; i++) expect(fake[name]()).toMatch(pattern);
+    });
+
+    it("should generate an address", () => {
+      expect(fake.address()).toEqual({
+        street: expect.any(String),
+        city: expect.any(String),
+        state: expect.any(String),
+        zipCode: expect.stringMatching(/^\d{5}$/),
+        country: expect.any(String),
+      } satisfies Record<keyof FakeAddress, unknown>);
+    });
+
+    it("should generate the same values for the same seed", () => {
+      const generate = () => [fake.fullName(), fake.email(), fake.uuid()];
+
+      setSeed(123);
+      const first = generate();
+      setSeed(123);
+
+      expect(generate()).toEqual(first);
+    });
+
+    it("should be usable as function defaults", () => {
+      const createUserFactory = () =>
+        createFactory(
+          { name: fake.fullName, email: fake.email, address: fake.address },
+          { seed: 1 },
+        );
+
+      const users = createUserFactory().many(2);
+
+      expect(users[0]).not.toEqual(users[1]);
+      expect(createUserFactory().many(2)).toEqual(users);
+    });
+  });
+});
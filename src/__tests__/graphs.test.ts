@@ -0,0 +1,117 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { createFactory, type Factory } from "../factories";
+import { flattenGraph } from "../graphs";
+import { createSequence } from "../sequences";
+
+describe("Graph APIs", () => {
+  type User = { id: number; name: string };
+  type Post = { id: number; userId: number };
+  type Comment = { id: number; postId: number };
+
+  const createFactories = () => {
+    const commentFactory = createFactory<Comment>({
+      id: createSequence(),
+      postId: -1,
+    }).associate("post", (post: Post) => ({ postId: post.id }));
+    const postFactory = createFactory<Post>({
+      id: createSequence(),
+      userId: -1,
+    })
+      .associate("user", (user: User) => ({ userId: user.id }))
+      .hasMany("comments", commentFactory, { count: 2, inverse: "post" });
+    const userFactory = createFactory<User>({
+      id: createSequence(),
+      name: "default",
+    }).hasMany("posts", postFactory, { count: 2, inverse: "user" });
+
+    return { userFactory, postFactory, commentFactory };
+  };
+
+  describe("factory.graph()", () => {
+    it("should generate related objects linked to their parent", () => {
+      const { userFactory } = createFactories();
+
+      const graph = userFactory.graph({ name: "override" });
+
+      expect(graph.object).toEqual({ id: 0, name: "override" });
+      expect(graph.related.posts.map((post) => post.object)).toEqual([
+        { id: 0, userId: 0 },
+        { id: 1, userId: 0 },
+      ]);
+      expect(graph.related.posts[0]!.associations.user).toBe(graph.object);
+      expect(
+        graph.related.posts[1]!.related.comments.map(
+          (comment) => comment.object,
+        ),
+      ).toEqual([
+        { id: 2, postId: 1 },
+        { id: 3, postId: 1 },
+      ]);
+    });
+
+    it("should not generate related objects when calling the factory", () => {
+      const { userFactory, postFactory } = createFactories();
+
+      userFactory();
+
+      expect(postFactory()).toEqual({ id: 0, userId: -1 });
+    });
+
+    it("should stop following circular relationships", () => {
+      const userFactory: Factory<
+        User,
+        undefined,
+        {},
+        {},
+        User,
+        {},
+        { friends: any }
+      > = createFactory<User>({
+        id: createSequence(),
+        name: "default",
+      }).hasMany("friends", () => userFactory, { count: 2 });
+
+      const graph = userFactory.graph();
+
+      expect(graph.related.friends).toHaveLength(2);
+      expect(graph.related.friends[0].related).toEqual({});
+    });
+
+    it("should type related objects", () => {
+      const { userFactory } = createFactories();
+
+      const graph = userFactory.graph();
+
+      expectTypeOf(graph.related.posts[0]!.object).toEqualTypeOf<Post>();
+      expectTypeOf(
+        graph.related.posts[0]!.related.comments[0]!.object,
+      ).toEqualTypeOf<Comment>();
+    });
+  });
+
+  describe("flattenGraph", () => {
+    it("should group objects by relationship, parents first", () => {
+      const { userFactory } = createFactories();
+
+      const actual = flattenGraph(userFactory.graph(), "users");
+
+      expect(Object.keys(actual)).toEqual(["users", "posts", "comments"]);
+      expect(actual.users).toEqual([{ id: 0, name: "default" }]);
+      expect(actual.posts).toHaveLength(2);
+      expect(actual.comments).toHaveLength(4);
+      expectTypeOf(actual).toEqualTypeOf<
+        { users: User[] } & { posts: Post[] } & { comments: Comment[] }
+      >();
+    });
+
+    it("should only include each object once", () => {
+      const { userFactory } = createFactories();
+      const graph = userFactory.graph();
+      graph.related.posts.push(graph.related.posts[0]!);
+
+      const actual = flattenGraph(graph, "users");
+
+      expect(actual.posts).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "bun:test";
+import { createMemoryAdapter } from "../persistence";
+
+describe("Persistence APIs", () => {
+  describe("createMemoryAdapter", () => {
+    it("should store inserted records in order", async () => {
+      const adapter = createMemoryAdapter<{ id: number }>();
+
+      await adapter.insert({ id: 0 });
+      await adapter.insertMany!([{ id: 1 }, { id: 2 }]);
+
+      expect(adapter.records).toEqual([{ id: 0 }, { id: 1 }, { id: 2 }]);
+    });
+
+    it("should return the inserted records", async () => {
+      const adapter = createMemoryAdapter<{ id: number }>();
+
+      expect(await adapter.insert({ id: 0 })).toEqual({ id: 0 });
+      expect(await adapter.insertMany!([{ id: 1 }])).toEqual([{ id: 1 }]);
+    });
+
+    it("should remove all records when cleared", async () => {
+      const adapter = createMemoryAdapter<{ id: number }>();
+      await adapter.insert({ id: 0 });
+
+      adapter.clear();
+
+      expect(adapter.records).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { createFactory } from "../factories";
+import { forAll, type Arbitrary } from "../properties";
+import { random } from "../random";
+import { createSequence } from "../sequences";
+
+describe("Property APIs", () => {
+  type User = { id: number; role: string; age: number; tags: string[] };
+
+  const userFactory = createFactory<User>({
+    id: createSequence(),
+    role: "user",
+    age: () => random.int(18, 99),
+    tags: () => ["a", "b"],
+  })
+    .trait("admin", { role: "admin" })
+    .trait("aged", (age: number) => ({ age }));
+
+  describe("forAll", () => {
+    it("should check the predicate for each run", () => {
+      const users: User[] = [];
+
+      forAll(userFactory, (user) => void users.push(user), { runs: 50 });
+
+      expect(users).toHaveLength(50);
+      expect(new Set(users.map((user) => user.role))).toEqual(
+        new Set(["user", "admin"]),
+      );
+      expect(new Set(users.map((user) => user.age)).size).toBeGreaterThan(1);
+    });
+
+    it("should generate each value in its own context", () => {
+      forAll(userFactory, (user) => user.id === 0);
+    });
+
+    it("should generate the same values for the same seed", () => {
+      const generate = () => {
+        const users: User[] = [];
+        forAll(userFactory, (user) => void users.push(user), { seed: 123 });
+        return users;
+      };
+
+      expect(generate()).toEqual(generate());
+    });
+
+    it("should generate different values for factories with a seed", () => {
+      const factory = createFactory(
+        { n: () => random.int(0, 1e6) },
+        { seed: 1 },
+      );
+      const values = new Set<number>();
+
+      forAll(factory, (value) => void values.add(value.n), { runs: 20 });
+
+      expect(values.size).toBeGreaterThan(1);
+    });
+
+    it("should throw the shrunk counterexample and the seed", () => {
+      expect(() =>
+        forAll(
+          userFactory,
+          (user) => {
+            if (user.role === "admin") throw Error("Admins aren't allowed");
+          },
+          { seed: 123 },
+        ),
+      ).toThrow(
+        /^Property failed after \d+ runs? \(seed: 123, shrunk \d+ times\)\.\n\nCounterexample: [^]*"role": "admin",[^]*"tags": \[\][^]*\n\nAdmins aren't allowed$/,
+      );
+    });
+
+    it("should shrink numbers toward the base value", () => {
+      const factory = createFactory({ count: 0 }).trait("big", {
+        count: 1000,
+      });
+
+      expect(() =>
+        forAll(factory.arbitrary({ traits: ["big"] }), (value) => {
+          return value.count < 10;
+        }),
+      ).toThrow(/shrunk 6 times[^]*"count": 15/);
+    });
+
+    it("should stop shrinking after the max number of attempts", () => {
+      const factory = createFactory({ count: 0 }).trait("big", {
+        count: 1000,
+      });
+
+      expect(() =>
+        forAll(factory, (value) => value.count < 10, { maxShrinks: 0 }),
+      ).toThrow(/shrunk 0 times[^]*"count": 1000/);
+    });
+  });
+
+  describe("arbitrary", () => {
+    it("should only apply traits that don't take arguments", () => {
+      expectTypeOf(userFactory.arbitrary()).toEqualTypeOf<Arbitrary<User>>();
+
+      const arbitrary = userFactory.arbitrary();
+      const roles = Array.from(
+        { length: 20 },
+        (_, seed) => arbitrary.generate(seed).role,
+      );
+
+      expect(new Set(roles)).toEqual(new Set(["user", "admin"]));
+    });
+
+    it("should shrink one property at a time toward the base object", () => {
+      const factory = createFactory({ role: "user", tags: ["a"] });
+
+      expect([
+        ...factory.arbitrary().shrink({ role: "admin", tags: ["a", "b"] }),
+      ]).toEqual([
+        { role: "user", tags: ["a", "b"] },
+        { role: "admin", tags: ["b"] },
+        { role: "admin", tags: ["a"] },
+      ]);
+    });
+  });
+});
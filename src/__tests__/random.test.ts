@@ -0,0 +1,142 @@
+import { describe, expect, it } from "bun:test";
+import { createRandom, random, setSeed, withRandom } from "../random";
+
+describe("Random APIs", () => {
+  describe("createRandom", () => {
+    it("should generate the same values for the same seed", () => {
+      const rng1 = createRandom(123);
+      const rng2 = createRandom(123);
+
+      const values1 = Array.from({ length: 5 }, () => rng1.next());
+      const values2 = Array.from({ length: 5 }, () => rng2.next());
+
+      expect(values1).toEqual(values2);
+    });
+
+    it("should generate different values for different seeds", () => {
+      const rng1 = createRandom(123);
+      const rng2 = createRandom(456);
+
+      expect(rng1.next()).not.toEqual(rng2.next());
+    });
+
+    it("should expose the seed", () => {
+      expect(createRandom(123).seed).toEqual(123);
+    });
+
+    it("should start over after being reset", () => {
+      const rng = createRandom(123);
+      const first = rng.next();
+      rng.next();
+
+      rng.reset();
+
+      expect(rng.next()).toEqual(first);
+    });
+
+    it("should generate floats between 0 and 1 from next", () => {
+      const rng = createRandom(1);
+
+      for (let i = 0; i < 100; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it("should generate integers within the inclusive range", () => {
+      const rng = createRandom(1);
+      const values = new Set(Array.from({ length: 100 }, () => rng.int(1, 3)));
+
+      expect([...values].sort()).toEqual([1, 2, 3]);
+    });
+
+    it("should generate floats within the range", () => {
+      const rng = createRandom(1);
+
+      for (let i = 0; i < 100; i++) {
+        const value = rng.float(5, 10);
+        expect(value).toBeGreaterThanOrEqual(5);
+        expect(value).toBeLessThan(10);
+      }
+    });
+
+    it("should generate booleans based on the probability", () => {
+      const rng = createRandom(1);
+
+      expect(rng.boolean(1)).toBe(true);
+      expect(rng.boolean(0)).toBe(false);
+    });
+
+    it("should pick an item from the array", () => {
+      const rng = createRandom(1);
+      const items = ["a", "b", "c"];
+
+      expect(items).toContain(rng.pick(items));
+    });
+
+    it("should throw when picking from an empty array", () => {
+      const rng = createRandom(1);
+
+      expect(() => rng.pick([])).toThrow("Cannot pick from an empty array");
+    });
+
+    it("should return a shuffled copy of the array", () => {
+      const rng = createRandom(1);
+      const items = [1, 2, 3, 4, 5];
+
+      const actual = rng.shuffle(items);
+
+      expect(actual).not.toBe(items);
+      expect(actual.toSorted()).toEqual(items);
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should never return values with a weight of 0", () => {
+      const rng = createRandom(1);
+
+      for (let i = 0; i < 100; i++) {
+        expect(
+          rng.weighted([
+            ["a", 0],
+            ["b", 1],
+          ]),
+        ).toEqual("b");
+      }
+    });
+
+    it("should throw when the weights don't add up to more than 0", () => {
+      const rng = createRandom(1);
+
+      expect(() => rng.weighted([["a", 0]])).toThrow(
+        "Weights must add up to more than 0",
+      );
+    });
+  });
+
+  describe("random", () => {
+    it("should use the global seed", () => {
+      setSeed(123);
+      const expected = createRandom(123).next();
+
+      expect(random.seed).toEqual(123);
+      expect(random.next()).toEqual(expected);
+    });
+
+    it("should return the seed that was set", () => {
+      expect(setSeed(5)).toEqual(5);
+      expect(typeof setSeed()).toEqual("number");
+    });
+
+    it("should use the active generator inside withRandom", () => {
+      setSeed(123);
+      const rng = createRandom(456);
+      const expected = createRandom(456).next();
+
+      const actual = withRandom(rng, () => random.next());
+
+      expect(actual).toEqual(expected);
+      expect(random.seed).toEqual(123);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { createFactory } from "../factories";
+import { random } from "../random";
+import { defineFactories } from "../registry";
+import { createSequence } from "../sequences";
+
+describe("Registry APIs", () => {
+  type User = { id: number; role: string };
+  type Post = { id: number; userId: number };
+
+  const createFactories = () => {
+    const userFactory = createFactory<User>(
+      { id: createSequence(), role: "user" },
+      { seed: 1 },
+    ).trait("admin", { role: "admin" });
+    const postFactory = createFactory<Post>({
+      id: createSequence(),
+      userId: 0,
+    }).associate("user", (user: User) => ({ userId: user.id }), {
+      build: "user:admin",
+    });
+
+    return defineFactories({ user: userFactory, post: postFactory });
+  };
+
+  describe("defineFactories", () => {
+    it("should build objects by name", () => {
+      const factories = createFactories();
+
+      expect(factories.build("user", { role: "override" })).toEqual({
+        id: 0,
+        role: "override",
+      });
+      expect(factories.build("user:admin")).toEqual({ id: 1, role: "admin" });
+      expect(factories.get("user").many(2)).toEqual([
+        { id: 2, role: "user" },
+        { id: 3, role: "user" },
+      ]);
+    });
+
+    it("should build associations referenced by name", () => {
+      const factories = createFactories();
+
+      expect(factories.get("post").build()).toEqual({
+        object: { id: 0, userId: 0 },
+        associations: { user: { id: 0, role: "admin" } },
+      });
+    });
+
+    it("should throw when building an association by name without a registry", () => {
+      const postFactory = createFactory<Post>({ id: 0, userId: 0 }).associate(
+        "user",
+        (user: User) => ({ userId: user.id }),
+        { build: "user" },
+      );
+
+      expect(() => postFactory()).toThrow(
+        'Cannot build "user" for the "user" association.',
+      );
+    });
+
+    it("should throw for unknown factories", () => {
+      const factories = createFactories();
+
+      expect(() => factories.get("comment" as any)).toThrow(
+        'Unknown factory "comment"',
+      );
+    });
+
+    it("should reset the sequences and seeds of every factory", () => {
+      const factories = defineFactories({
+        user: createFactory<User>(
+          { id: createSequence(), role: () => random.pick(["a", "b", "c"]) },
+          { seed: 1 },
+        ),
+        post: createFactory<Post>({ id: createSequence(), userId: 0 }),
+      });
+      const first = [factories.get("user").many(5), factories.build("post")];
+
+      factories.reset();
+
+      expect([factories.get("user").many(5), factories.build("post")]).toEqual(
+        first,
+      );
+    });
+
+    it("should type lookups by factory and trait name", () => {
+      const factories = createFactories();
+
+      expectTypeOf(factories.build("user:admin")).toEqualTypeOf<User>();
+      expectTypeOf(factories.build("post")).toEqualTypeOf<Post>();
+      expectTypeOf<Parameters<typeof factories.get>[0]>().toEqualTypeOf<
+        "user" | "user:admin" | "post"
+      >();
+    });
+  });
+});
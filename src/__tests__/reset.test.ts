@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { clock, recentDate, setFactoryClock } from "../clock";
+import { createFactory } from "../factories";
+import { random, setSeed } from "../random";
+import { resetFactoryState } from "../reset";
+import { createSequence } from "../sequences";
+import { unique } from "../unique";
+
+describe("Reset APIs", () => {
+  afterEach(() => {
+    setFactoryClock();
+    setSeed();
+  });
+
+  describe("resetFactoryState", () => {
+    const factory = createFactory({
+      id: createSequence(),
+      code: unique(() => random.int(0, 1000)),
+      createdAt: () => recentDate(),
+    });
+
+    it("should generate the same objects after each reset", () => {
+      resetFactoryState({ seed: 1, now: "2024-01-01T00:00:00.000Z" });
+      const first = factory.many(3);
+
+      resetFactoryState();
+      const second = factory.many(3);
+
+      expect(second).toEqual(first);
+      expect(first[0]!.id).toEqual(0);
+    });
+
+    it("should reset factories with their own seed", () => {
+      const seededFactory = createFactory(
+        { value: () => random.int(0, 1e9) },
+        { seed: 42 },
+      );
+
+      resetFactoryState({ seed: 1 });
+      const first = seededFactory();
+      resetFactoryState({ seed: 1 });
+
+      expect(seededFactory()).toEqual(first);
+    });
+
+    it("should pin the clock", () => {
+      resetFactoryState({ now: 0 });
+
+      expect(clock.now()).toEqual(new Date(0));
+    });
+  });
+});
@@ -1,5 +1,14 @@
-import { describe, expect, it } from "bun:test";
-import { createSequence } from "../sequences";
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { createFactory } from "../factories";
+import {
+  createDateSequence,
+  createSequence,
+  createUuidSequence,
+  cycle,
+  mapSequence,
+  resetSequences,
+  zipSequences,
+} from "../sequences";
 
 describe("Sequence APIs", () => {
   describe("createSequence", () => {
@@ -32,5 +41,189 @@ describe("Sequence APIs", () => {
         expect(seq()).toEqual({ i: 2 });
       });
     });
+
+    describe("when options are passed", () => {
+      it("should start at start and increase by step", () => {
+        const seq = createSequence({ start: 10, step: 5 });
+
+        expect([seq(), seq(), seq()]).toEqual([10, 15, 20]);
+        expect(seq.current).toEqual(3);
+      });
+
+      it("should pad prefixed strings", () => {
+        const seq = createSequence("user-", { pad: 4, start: 1 });
+
+        expect([seq(), seq()]).toEqual(["user-0001", "user-0002"]);
+      });
+
+      it("should pass the number into the function", () => {
+        const seq = createSequence((i) => ({ i }), { step: -1 });
+
+        expect([seq(), seq()]).toEqual([{ i: 0 }, { i: -1 }]);
+      });
+    });
+  });
+
+  describe("cycle", () => {
+    it("should loop over the items", () => {
+      const seq = cycle(["a", "b"]);
+
+      expect([seq(), seq(), seq()]).toEqual(["a", "b", "a"]);
+    });
+
+    it("should throw when there are no items", () => {
+      expect(() => cycle([])).toThrow("Cannot cycle over an empty array");
+    });
+  });
+
+  describe("createUuidSequence", () => {
+    it("should return deterministic, UUID-shaped strings", () => {
+      const seq = createUuidSequence({ start: 255 });
+
+      expect([seq(), seq()]).toEqual([
+        "00000000-0000-4000-8000-0000000000ff",
+        "00000000-0000-4000-8000-000000000100",
+      ]);
+    });
+  });
+
+  describe("createDateSequence", () => {
+    it("should return new dates separated by the interval", () => {
+      const seq = createDateSequence({
+        start: "2024-01-01T00:00:00.000Z",
+        interval: 1000,
+      });
+
+      const first = seq();
+      const second = seq();
+
+      expect(first).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+      expect(second).toEqual(new Date("2024-01-01T00:00:01.000Z"));
+      expect(seq.peek()).not.toBe(seq.peek());
+    });
+
+    it("should default to daily dates starting in 2000", () => {
+      const seq = createDateSequence();
+
+      seq();
+      expect(seq()).toEqual(new Date("2000-01-02T00:00:00.000Z"));
+    });
+  });
+
+  describe("mapSequence", () => {
+    it("should transform the values of the original sequence", () => {
+      const ids = createSequence();
+      const emails = mapSequence(ids, (id) => `user-${id}@example.com`);
+
+      expect(emails()).toEqual("user-0@example.com");
+      expect(ids()).toEqual(1);
+      expect(emails.peek()).toEqual("user-2@example.com");
+
+      emails.reset();
+      expect(ids.current).toEqual(0);
+    });
+  });
+
+  describe("zipSequences", () => {
+    it("should return the values of each sequence together", () => {
+      const seq = zipSequences(createSequence(), cycle(["a", "b"]));
+
+      expect([seq(), seq(), seq()]).toEqual([
+        [0, "a"],
+        [1, "b"],
+        [2, "a"],
+      ]);
+
+      seq.set(1);
+      expect(seq()).toEqual([1, "b"]);
+      expectTypeOf(seq()).toEqualTypeOf<[number, string]>();
+    });
+  });
+
+  describe("Sequence", () => {
+    it("should return the next index from current", () => {
+      const seq = createSequence();
+
+      expect(seq.current).toEqual(0);
+      seq();
+      seq();
+      expect(seq.current).toEqual(2);
+    });
+
+    it("should return the next value without advancing when peeking", () => {
+      const seq = createSequence("user-");
+      seq();
+
+      expect(seq.peek()).toEqual("user-1");
+      expect(seq.peek()).toEqual("user-1");
+      expect(seq()).toEqual("user-1");
+    });
+
+    it("should start over after being reset", () => {
+      const seq = createSequence("user-");
+      seq();
+      seq();
+
+      seq.reset();
+
+      expect(seq.current).toEqual(0);
+      expect(seq()).toEqual("user-0");
+    });
+
+    it("should continue from the index passed to set", () => {
+      const seq = createSequence("user-");
+      seq();
+      seq();
+      seq();
+
+      seq.set(1);
+
+      expect(seq()).toEqual("user-1");
+      expect(seq()).toEqual("user-2");
+    });
+  });
+
+  describe("resetSequences", () => {
+    it("should reset every sequence", () => {
+      const seq1 = createSequence();
+      const seq2 = createSequence("user-");
+      seq1();
+      seq2();
+
+      resetSequences();
+
+      expect(seq1()).toEqual(0);
+      expect(seq2()).toEqual("user-0");
+    });
+
+    it("should only reset sequences used by the factory when one is passed", () => {
+      const userIdSequence = createSequence();
+      const usernameSequence = createSequence("username-");
+      const otherSequence = createSequence();
+      const factory = createFactory({
+        id: userIdSequence,
+        username: "username",
+      }).trait("generated", { username: usernameSequence });
+      factory();
+      factory.generated();
+      otherSequence();
+
+      resetSequences(factory);
+
+      expect(factory.generated()).toEqual({ id: 0, username: "username-0" });
+      expect(otherSequence()).toEqual(1);
+    });
+
+    it("should reset sequences used by transient default values", () => {
+      const factory = createFactory<{ id: number }, { k: number }>(
+        { id: ({ k }) => k },
+        { transient: { k: createSequence() } },
+      );
+      factory.many(2);
+
+      resetSequences(factory);
+
+      expect(factory()).toEqual({ id: 0 });
+    });
   });
 });
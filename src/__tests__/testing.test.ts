@@ -0,0 +1,109 @@
+import { afterAll, afterEach, describe, expect, spyOn } from "bun:test";
+import { it, setupFactoryTests } from "../bun";
+import { createFactory } from "../factories";
+import { random, setSeed } from "../random";
+import { defineFactories } from "../registry";
+import { createSequence } from "../sequences";
+import { getFactoryTestReport, startFactoryTest } from "../testing";
+
+describe("Testing APIs", () => {
+  type User = { id: number; role: string };
+  type Post = { id: number; userId: number };
+
+  const userFactory = createFactory<User>({
+    id: createSequence(),
+    role: "user",
+  }).trait("admin", { role: "admin" });
+  const postFactory = createFactory<Post>({
+    id: createSequence(),
+    userId: 0,
+  }).associate("user", (user: User) => ({ userId: user.id }), {
+    build: "user",
+  });
+  const factories = defineFactories({ user: userFactory, post: postFactory });
+
+  afterEach(() => {
+    setSeed();
+  });
+
+  describe("startFactoryTest", () => {
+    it("should reset sequences and seed the random number generator", () => {
+      userFactory();
+
+      expect(startFactoryTest({ seed: 123 })).toEqual(123);
+      expect(userFactory()).toEqual({ id: 0, role: "user" });
+      expect(random.seed).toEqual(123);
+    });
+
+    it("should reset factories with their own seed", () => {
+      const seededFactory = createFactory(
+        { value: () => random.int(0, 1e9) },
+        { seed: 42 },
+      );
+
+      startFactoryTest();
+      const first = seededFactory();
+      startFactoryTest();
+
+      expect(seededFactory()).toEqual(first);
+    });
+
+    it("should use a new random seed for each test by default", () => {
+      const seed = startFactoryTest();
+
+      expect(random.seed).toEqual(seed);
+    });
+
+    it("should use the seed from the environment", () => {
+      process.env.ZERO_FACTORY_SEED = "456";
+      try {
+        expect(startFactoryTest()).toEqual(456);
+      } finally {
+        delete process.env.ZERO_FACTORY_SEED;
+      }
+    });
+  });
+
+  describe("getFactoryTestReport", () => {
+    it("should list the seed and the factory calls made by the test", () => {
+      startFactoryTest({ seed: 123 });
+      factories.get("user:admin")({ role: "owner" });
+      factories.get("post").many(2);
+      userFactory();
+
+      expect(getFactoryTestReport()).toEqual(
+        [
+          "Factory seed: 123 (replay with ZERO_FACTORY_SEED=123)",
+          "Factory calls:",
+          '  user:admin({"role":"owner"})',
+          "  post.many(2)",
+          "  factory()",
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("bun integration", () => {
+    setupFactoryTests({ seed: 123 });
+
+    it.each([1, 2])("should reset state before each test %#", () => {
+      expect(userFactory()).toEqual({ id: 0, role: "user" });
+      expect(random.seed).toEqual(123);
+    });
+
+    describe("when a test fails", () => {
+      const consoleError = spyOn(console, "error").mockImplementation(() => {});
+      afterAll(() => {
+        expect(consoleError).toHaveBeenCalledWith(
+          expect.stringContaining("Factory seed: 123"),
+        );
+        consoleError.mockRestore();
+      });
+
+      it.failing("should print the report", () => {
+        userFactory();
+        throw Error("Test failed");
+      });
+    });
+  });
+});
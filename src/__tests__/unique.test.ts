@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { createFactory } from "../factories";
+import { createMemoryAdapter } from "../persistence";
+import { createSequence, resetSequences } from "../sequences";
+import { unique } from "../unique";
+
+describe("Unique APIs", () => {
+  describe("unique", () => {
+    it("should call the function again until a new value is returned", () => {
+      const values = [1, 1, 2, 1, 2, 3];
+      const fn = unique(() => values.shift()!);
+
+      expect([fn(), fn(), fn()]).toEqual([1, 2, 3]);
+    });
+
+    it("should throw after the max number of attempts", () => {
+      const fn = unique(() => "same", { maxAttempts: 3 });
+      fn();
+
+      expect(() => fn()).toThrow(
+        "Failed to generate a unique value after 3 attempts.",
+      );
+    });
+
+    it("should compare values using the key", () => {
+      const dates = [new Date(0), new Date(0), new Date(1)];
+      const fn = unique(() => dates.shift()!, {
+        key: (date) => date.getTime(),
+      });
+
+      expect([fn(), fn()]).toEqual([new Date(0), new Date(1)]);
+    });
+
+    it("should pass arguments through to the function", () => {
+      const factory = createFactory<{ id: number; email: string }>({
+        id: createSequence(),
+        email: unique((user) => `user-${user.id}@example.com`),
+      });
+
+      expect(factory.many(2).map((user) => user.email)).toEqual([
+        "user-0@example.com",
+        "user-1@example.com",
+      ]);
+    });
+
+    it("should be reset by resetSequences", () => {
+      const fn = unique(() => "same");
+      const factory = createFactory({ value: fn });
+      fn();
+
+      resetSequences(factory);
+      expect(fn()).toEqual("same");
+
+      resetSequences();
+      expect(fn()).toEqual("same");
+    });
+  });
+
+  describe("when overriding unique properties in many", () => {
+    type User = { id: number; profile: { email: string } };
+
+    const createUserFactory = () =>
+      createFactory<User>(
+        {
+          id: createSequence(),
+          profile: { email: unique(createSequence("user-")) },
+        },
+        { adapter: createMemoryAdapter() },
+      );
+
+    it("should throw when overrides introduce duplicates", async () => {
+      const factory = createUserFactory();
+
+      expect(() => factory.many(2, { profile: { email: "same" } })).toThrow(
+        'Expected "profile.email" to be unique, but "same" was generated more than once.',
+      );
+      await expect(
+        factory.createMany(2, [{}, { profile: { email: "user-0" } }]),
+      ).rejects.toThrow('Expected "profile.email" to be unique');
+    });
+
+    it("should allow unique overrides", () => {
+      const factory = createUserFactory();
+
+      expect(
+        factory.many(2, (i) => ({ profile: { email: `override-${i}` } })),
+      ).toEqual([
+        { id: 0, profile: { email: "override-0" } },
+        { id: 1, profile: { email: "override-1" } },
+      ]);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, expectTypeOf, it } from "bun:test";
-import { deepMerge, type DeepPartial, type FactoryDefaults } from "../utils";
+import { append, mergeByIndex, mergeByKey, prepend } from "../arrays";
+import {
+  deepMerge,
+  type ArrayOverride,
+  type DeepPartial,
+  type FactoryDefaults,
+} from "../utils";
 
 describe("Utilities", () => {
   describe("DeepPartial", () => {
@@ -36,10 +42,14 @@ describe("Utilities", () => {
       };
       type Expected = {
         a?: string;
-        b?: string[];
-        c?: Array<{
-          d: number | null;
-        }>;
+        b?: string[] | ArrayOverride<string>;
+        c?:
+          | Array<{
+              d: number | null;
+            }>
+          | ArrayOverride<{
+              d: number | null;
+            }>;
       };
 
       type Actual = DeepPartial<Input>;
@@ -112,6 +122,103 @@ describe("Utilities", () => {
       expect(actual).toEqual(expected);
     });
 
+    it.each([
+      ["Map", () => new Map([["a", 1]])],
+      ["Set", () => new Set([1])],
+      ["URL", () => new URL("https://example.com")],
+      ["RegExp", () => /example/g],
+      ["Uint8Array", () => new Uint8Array([1, 2])],
+      ["class instance", () => new (class Example {})()],
+    ])("should not merge %s overrides into the base value", (_, create) => {
+      const override = create();
+
+      const actual = deepMerge<{ a: any }>({ a: { b: "b" } }, { a: override });
+
+      expect(actual.a).toBe(override);
+    });
+
+    it("should deeply merge objects without a prototype", () => {
+      const overrides = Object.assign(Object.create(null), { b: "z" });
+
+      const actual = deepMerge({ a: { b: "b", c: "c" } }, { a: overrides });
+
+      expect(actual).toEqual({ a: { b: "z", c: "c" } });
+    });
+
+    describe("array overrides", () => {
+      type Item = { id: number; name: string; tags: string[] };
+      const base: { items: Item[] } = {
+        items: [
+          { id: 1, name: "one", tags: [] },
+          { id: 2, name: "two", tags: [] },
+        ],
+      };
+
+      it("should add items to the end when appending", () => {
+        const item: Item = { id: 3, name: "three", tags: [] };
+
+        const actual = deepMerge(base, { items: append([item]) });
+
+        expect(actual.items).toEqual([...base.items, item]);
+      });
+
+      it("should add items to the start when prepending", () => {
+        const item: Item = { id: 3, name: "three", tags: [] };
+
+        const actual = deepMerge(base, { items: prepend([item]) });
+
+        expect(actual.items).toEqual([item, ...base.items]);
+      });
+
+      it("should deeply merge items at the same index", () => {
+        const actual = deepMerge(base, {
+          items: mergeByIndex<Item>([{}, { name: "override" }]),
+        });
+
+        expect(actual.items).toEqual([
+          { id: 1, name: "one", tags: [] },
+          { id: 2, name: "override", tags: [] },
+        ]);
+      });
+
+      it("should throw when merging items past the end of the base array", () => {
+        expect(() =>
+          deepMerge(base, {
+            items: mergeByIndex<Item>([{}, {}, { id: 3 }]),
+          }),
+        ).toThrow(
+          "Cannot merge 3 items by index into an array of 2 items. Use `append` to add items.",
+        );
+      });
+
+      it("should deeply merge items with the same key", () => {
+        const actual = deepMerge(base, {
+          items: mergeByKey<Item>("id", [{ id: 2, tags: append(["new"]) }]),
+        });
+
+        expect(actual.items).toEqual([
+          { id: 1, name: "one", tags: [] },
+          { id: 2, name: "two", tags: ["new"] },
+        ]);
+      });
+
+      it("should throw when merging an item without a base item with the same key", () => {
+        expect(() =>
+          deepMerge(base, {
+            items: mergeByKey<Item>("id", [{ id: 3, name: "three" }]),
+          }),
+        ).toThrow(
+          "Cannot merge the item with id 3, no base item has the same id. Use `append` to add items.",
+        );
+      });
+
+      it("should not modify the base array", () => {
+        deepMerge(base, { items: append([{ id: 3, name: "", tags: [] }]) });
+
+        expect(base.items).toHaveLength(2);
+      });
+    });
+
     describe.each([undefined, null, "", 0, Symbol(), false])(
       "When %p is used to override a value",
       (override) => {
@@ -163,21 +270,21 @@ describe("Utilities", () => {
   describe("FactoryDefault", () => {
     it('should accept a "boolean" or "() => boolean"', () => {
       type Input = { a: boolean };
-      type Expected = { a: boolean | (() => boolean) };
+      type Expected = { a: boolean | ((object: Input) => boolean) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it('should accept a "string" or "() => string"', () => {
       type Input = { a: string };
-      type Expected = { a: string | (() => string) };
+      type Expected = { a: string | ((object: Input) => string) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it('should accept a "number" or "() => number"', () => {
       type Input = { a: number };
-      type Expected = { a: number | (() => number) };
+      type Expected = { a: number | ((object: Input) => number) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
@@ -185,35 +292,37 @@ describe("Utilities", () => {
     it('should accept a "Branded" or "() => Branded"', () => {
       type Branded = number & { __brand: "date" };
       type Input = { a: Branded };
-      type Expected = { a: Branded | (() => Branded) };
+      type Expected = { a: Branded | ((object: Input) => Branded) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it("should optionally accept optional keys", () => {
       type Input = { a?: string };
-      type Expected = { a?: string | (() => string | undefined) };
+      type Expected = { a?: string | ((object: Input) => string | undefined) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it("should require undefinable keys", () => {
       type Input = { a: string | undefined };
-      type Expected = { a: string | undefined | (() => string | undefined) };
+      type Expected = {
+        a: string | undefined | ((object: Input) => string | undefined);
+      };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it("should require nullable keys", () => {
       type Input = { a: string | null };
-      type Expected = { a: string | null | (() => string | null) };
+      type Expected = { a: string | null | ((object: Input) => string | null) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
 
     it("should handle literal union types", () => {
       type Input = { a: 2 | 3 };
-      type Expected = { a: 2 | 3 | (() => 2 | 3) };
+      type Expected = { a: 2 | 3 | ((object: Input) => 2 | 3) };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
     });
@@ -221,7 +330,9 @@ describe("Utilities", () => {
     it("should deeply expand object keys", () => {
       type Input = { a: { b: boolean } };
       type Expected = {
-        a: { b: boolean | (() => boolean) } | (() => { b: boolean });
+        a:
+          | { b: boolean | ((object: Input) => boolean) }
+          | ((object: Input) => { b: boolean });
       };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
@@ -231,10 +342,10 @@ describe("Utilities", () => {
       type Input = { a: { b: string } | undefined };
       type Expected = {
         a:
-          | { b: string | (() => string) }
-          | (() => { b: string })
+          | { b: string | ((object: Input) => string) }
+          | ((object: Input) => { b: string })
           | undefined
-          | (() => undefined);
+          | ((object: Input) => undefined);
       };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
@@ -244,10 +355,10 @@ describe("Utilities", () => {
       type Input = { a: { b: string } | null };
       type Expected = {
         a:
-          | { b: string | (() => string) }
-          | (() => { b: string })
+          | { b: string | ((object: Input) => string) }
+          | ((object: Input) => { b: string })
           | null
-          | (() => null);
+          | ((object: Input) => null);
       };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
@@ -257,8 +368,20 @@ describe("Utilities", () => {
       type Input = { a: { b: string; c: number } };
       type Expected = {
         a:
-          | { b: string | (() => string); c: number | (() => number) }
-          | (() => { b: string; c: number });
+          | {
+              b: string | ((object: Input) => string);
+              c: number | ((object: Input) => number);
+            }
+          | ((object: Input) => { b: string; c: number });
+      };
+      type Actual = FactoryDefaults<Input>;
+      expectTypeOf<Actual>().toEqualTypeOf<Expected>();
+    });
+
+    it("should not deeply expand Map keys", () => {
+      type Input = { a: Map<string, number> };
+      type Expected = {
+        a: Map<string, number> | ((object: Input) => Map<string, number>);
       };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
@@ -267,7 +390,7 @@ describe("Utilities", () => {
     it("should not deeply expand array keys", () => {
       type Input = { a: Array<{ b: boolean }> };
       type Expected = {
-        a: Array<{ b: boolean }> | (() => Array<{ b: boolean }>);
+        a: Array<{ b: boolean }> | ((object: Input) => Array<{ b: boolean }>);
       };
       type Actual = FactoryDefaults<Input>;
       expectTypeOf<Actual>().toEqualTypeOf<Expected>();
@@ -0,0 +1,169 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { createFactory } from "../factories";
+import { deepMerge, type DeepPartial } from "../utils";
+import { isPlainObject, registerValueType } from "../values";
+
+describe("Value APIs", () => {
+  describe("isPlainObject", () => {
+    it.each([
+      ["an object literal", { a: 1 }],
+      ["an object without a prototype", Object.create(null)],
+    ])("should return true for %s", (_, value) => {
+      expect(isPlainObject(value)).toBe(true);
+    });
+
+    it.each([
+      ["null", null],
+      ["undefined", undefined],
+      ["a number", 1],
+      ["a string", "a"],
+      ["an array", []],
+      ["a Date", new Date()],
+      ["a Map", new Map()],
+      ["a class instance", new (class Example {})()],
+    ])("should return false for %s", (_, value) => {
+      expect(isPlainObject(value)).toBe(false);
+    });
+  });
+
+  describe("built-in value types", () => {
+    it.each([
+      ["Date", new Date(0)],
+      ["Map", new Map([["a", 1]])],
+      ["Set", new Set([1])],
+      ["URL", new URL("https://example.com")],
+      ["RegExp", /example/g],
+      ["Uint8Array", new Uint8Array([1, 2])],
+    ])("should copy static %s defaults for each object", (_, value) => {
+      const factory = createFactory<{ value: any }>({ value });
+
+      const actual = factory().value;
+
+      expect(actual).not.toBe(value);
+      expect(actual).toEqual(value);
+      expect(Object.getPrototypeOf(actual)).toBe(Object.getPrototypeOf(value));
+    });
+
+    it("should copy the values in static Map and Set defaults", () => {
+      const factory = createFactory<{
+        map: Map<string, { tags: string[] }>;
+        set: Set<{ tags: string[] }>;
+      }>({
+        map: new Map([["a", { tags: [] }]]),
+        set: new Set([{ tags: [] }]),
+      });
+
+      const first = factory();
+      first.map.get("a")!.tags.push("leak");
+      [...first.set][0]!.tags.push("leak");
+      const second = factory();
+
+      expect(second.map.get("a")).toEqual({ tags: [] });
+      expect([...second.set]).toEqual([{ tags: [] }]);
+    });
+
+    it("should keep class instance defaults as-is", () => {
+      class Example {
+        value = 1;
+      }
+      const value = new Example();
+      const factory = createFactory<{ value: Example }>({ value });
+
+      expect(factory().value).toBe(value);
+    });
+
+    it("should replace class instance defaults with plain object overrides", () => {
+      class Money {
+        constructor(
+          readonly cents: number,
+          readonly currency: string,
+        ) {}
+
+        format(): string {
+          return `${this.cents} ${this.currency}`;
+        }
+      }
+      const factory = createFactory<{ price: Money | { cents: number } }>({
+        price: new Money(100, "USD"),
+      });
+
+      const actual = factory({ price: { cents: 5 } }).price;
+
+      expect(actual).toEqual({ cents: 5 });
+      expect(actual).not.toBeInstanceOf(Money);
+    });
+
+    it("should not allow partial class instances as overrides", () => {
+      class Money {
+        constructor(readonly cents: number) {}
+
+        format(): string {
+          return `${this.cents}`;
+        }
+      }
+      const factory = createFactory<{ price: Money }>({ price: new Money(1) });
+
+      expectTypeOf<DeepPartial<{ price: Money }>>().toEqualTypeOf<{
+        price?: Money;
+      }>();
+      // @ts-expect-error: Class instances are replaced, not merged
+      factory({ price: { cents: 5 } });
+    });
+
+    it("should not make built-in value type overrides partial", () => {
+      type Input = { map: Map<string, number>; url: URL };
+
+      expectTypeOf<DeepPartial<Input>>().toEqualTypeOf<{
+        map?: Map<string, number>;
+        url?: URL;
+      }>();
+    });
+  });
+
+  describe("registerValueType", () => {
+    it("should clone instances of a registered class", () => {
+      class Money {
+        constructor(readonly cents: number) {}
+      }
+      registerValueType(Money, { clone: (value) => new Money(value.cents) });
+      const value = new Money(100);
+      const factory = createFactory<{ price: Money }>({ price: value });
+
+      const actual = factory().price;
+
+      expect(actual).not.toBe(value);
+      expect(actual).toEqual(value);
+    });
+
+    it("should merge instances of a registered class", () => {
+      class Tags {
+        constructor(readonly values: string[]) {}
+      }
+      registerValueType(Tags, {
+        merge: (base, override) =>
+          new Tags([...base.values, ...override.values]),
+      });
+
+      const actual = deepMerge(
+        { tags: new Tags(["a"]) },
+        { tags: new Tags(["b"]) },
+      );
+
+      expect(actual.tags).toEqual(new Tags(["a", "b"]));
+    });
+
+    it("should treat plain objects matching a test as a single value", () => {
+      type ObjectId = { $oid: string };
+      const isObjectId = (value: unknown): value is ObjectId =>
+        isPlainObject(value) && "$oid" in value;
+      registerValueType({ test: isObjectId });
+
+      const actual = deepMerge<{ id: Record<string, string> }>(
+        { id: { $oid: "a", extra: "b" } },
+        { id: { $oid: "c" } },
+      );
+
+      expect(actual).toEqual({ id: { $oid: "c" } });
+    });
+  });
+});
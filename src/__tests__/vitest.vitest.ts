@@ -0,0 +1,37 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { createFactory } from "../factories";
+import { random } from "../random";
+import { createSequence } from "../sequences";
+import { setupFactoryTests } from "../vitest";
+
+describe("Vitest integration", () => {
+  const factory = createFactory({ id: createSequence() });
+
+  setupFactoryTests({ seed: 123 });
+
+  it.each([1, 2])("should reset state before each test %#", () => {
+    expect(factory()).toEqual({ id: 0 });
+    expect(random.seed).toEqual(123);
+  });
+
+  describe("when a test fails", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    afterAll(() => {
+      expect(consoleError).toHaveBeenCalledWith(
+        [
+          "Factory seed: 123 (replay with ZERO_FACTORY_SEED=123)",
+          "Factory calls:",
+          "  factory()",
+        ].join("\n"),
+      );
+      consoleError.mockRestore();
+    });
+
+    it.fails("should print the report", () => {
+      factory();
+      throw Error("Test failed");
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  ARRAY_OVERRIDE,
+  type ArrayItemsOverride,
+  type ArrayMergeOverride,
+  type DeepPartial,
+} from "./utils";
+
+export type {
+  ArrayItemsOverride,
+  ArrayMergeOverride,
+  ArrayMergeStrategy,
+  ArrayOverride,
+} from "./utils";
+
+/**
+ * Override an array property by adding items to the end of the base array.
+ *
+ * @example
+ * ```ts
+ * const userFactory = createFactory<User>({ tags: ["a"], ... });
+ *
+ * userFactory({ tags: append(["b"]) }); // { tags: ["a", "b"], ... }
+ * ```
+ */
+export function append<T>(items: T[]): ArrayItemsOverride<T> {
+  return { [ARRAY_OVERRIDE]: "append", items };
+}
+
+/**
+ * Override an array property by adding items to the start of the base array.
+ *
+ * @example
+ * ```ts
+ * const userFactory = createFactory<User>({ tags: ["a"], ... });
+ *
+ * userFactory({ tags: prepend(["b"]) }); // { tags: ["b", "a"], ... }
+ * ```
+ */
+export function prepend<T>(items: T[]): ArrayItemsOverride<T> {
+  return { [ARRAY_OVERRIDE]: "prepend", items };
+}
+
+/**
+ * Override an array property by deeply merging each item into the base item
+ * at the same index. Items are partial, so they can't be added past the end
+ * of the base array, use {@link append} to add items instead.
+ *
+ * @example
+ * ```ts
+ * const orderFactory = createFactory<Order>({
+ *   items: [
+ *     { sku: "a", quantity: 1 },
+ *     { sku: "b", quantity: 1 },
+ *   ],
+ * });
+ *
+ * orderFactory({ items: mergeByIndex([{}, { quantity: 5 }]) });
+ * // {
+ * //   items: [
+ * //     { sku: "a", quantity: 1 },
+ * //     { sku: "b", quantity: 5 },
+ * //   ],
+ * // }
+ * ```
+ */
+export function mergeByIndex<T>(
+  items: DeepPartial<NoInfer<T>>[],
+): ArrayMergeOverride<T> {
+  return { [ARRAY_OVERRIDE]: "mergeByIndex", items };
+}
+
+/**
+ * Override an array property by deeply merging each item into the base item
+ * with the same value for `key`. Items are partial, so every item must match
+ * a base item, use {@link append} to add items instead.
+ *
+ * @example
+ * ```ts
+ * const orderFactory = createFactory<Order>({
+ *   items: [
+ *     { sku: "a", quantity: 1 },
+ *     { sku: "b", quantity: 1 },
+ *   ],
+ * });
+ *
+ * orderFactory({ items: mergeByKey("sku", [{ sku: "b", quantity: 5 }]) });
+ * // {
+ * //   items: [
+ * //     { sku: "a", quantity: 1 },
+ * //     { sku: "b", quantity: 5 },
+ * //   ],
+ * // }
+ * ```
+ */
+export function mergeByKey<T>(
+  key: keyof NoInfer<T>,
+  items: Array<DeepPartial<NoInfer<T>>>,
+): ArrayMergeOverride<T> {
+  return { [ARRAY_OVERRIDE]: { mergeByKey: key }, items };
+}
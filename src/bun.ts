@@ -0,0 +1,90 @@
+import { beforeEach, it as bunIt, test as bunTest } from "bun:test";
+import {
+  getFactoryTestReport,
+  startFactoryTest,
+  type FactoryTestOptions,
+} from "./testing";
+
+export type { FactoryTestOptions } from "./testing";
+
+/**
+ * Reset sequences and `unique` functions and assign a new seed before each
+ * test.
+ *
+ * `bun:test` hooks don't know whether a test failed, so to print the seed and
+ * factory calls of failed tests, use the {@link test} and {@link it} exported
+ * by this module instead of the ones from `bun:test`.
+ *
+ * @example
+ * ```ts
+ * import { describe, expect } from "bun:test";
+ * import { it, setupFactoryTests } from "@aklinker1/zero-factory/bun";
+ *
+ * setupFactoryTests();
+ * ```
+ */
+export function setupFactoryTests(options?: FactoryTestOptions): void {
+  beforeEach(() => {
+    startFactoryTest(options);
+  });
+}
+
+/**
+ * `test` from `bun:test`, printing the seed and factory calls of failed tests
+ * so they can be replayed with the `ZERO_FACTORY_SEED` environment variable.
+ */
+export const test: typeof bunTest = reportFailures(bunTest);
+
+/**
+ * `it` from `bun:test`, printing the seed and factory calls of failed tests
+ * so they can be replayed with the `ZERO_FACTORY_SEED` environment variable.
+ */
+export const it: typeof bunIt = reportFailures(bunIt);
+
+/**
+ * Wrap the test functions passed to `test`, and to its variants like
+ * `test.only` or `test.each(...)`.
+ */
+function reportFailures<T extends (...args: any[]) => any>(
+  fn: T,
+  owner?: unknown,
+): T {
+  return new Proxy(fn, {
+    apply: (target, thisArg, args) => {
+      // Variants like `test.only` need to be called on the original `test`
+      const result = Reflect.apply(
+        target,
+        owner ?? thisArg,
+        args.map((arg) =>
+          typeof arg === "function" ? reportTestFailure(arg) : arg,
+        ),
+      );
+      return typeof result === "function" ? reportFailures(result) : result;
+    },
+    get: (target, key) => {
+      const value: unknown = Reflect.get(target, key);
+      return typeof value === "function"
+        ? reportFailures(value as (...args: any[]) => any, target)
+        : value;
+    },
+  });
+}
+
+function reportTestFailure(fn: (...args: any[]) => any) {
+  const onError = (error: unknown) => {
+    const report = getFactoryTestReport();
+    if (report) console.error(report);
+    throw error;
+  };
+
+  const wrapped = function (this: unknown, ...args: any[]) {
+    try {
+      const result = fn.apply(this, args);
+      return result instanceof Promise ? result.catch(onError) : result;
+    } catch (error) {
+      return onError(error);
+    }
+  };
+  // Bun passes a `done` callback based on the number of parameters
+  return Object.defineProperty(wrapped, "length", { value: fn.length });
+}
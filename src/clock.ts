@@ -0,0 +1,145 @@
+import { getContextValue, setContextValue } from "./context";
+import { random } from "./random";
+
+/**
+ * Returns the current time. Used by function defaults and date helpers like
+ * {@link recentDate} instead of `new Date()`, so the current time can be
+ * pinned in tests.
+ */
+export type Clock = {
+  /**
+   * Returns a new `Date` for the current time.
+   */
+  now(): Date;
+};
+
+/**
+ * A fixed point in time, or a function returning the current time.
+ */
+export type ClockTime = Date | string | number | (() => Date | number);
+
+/**
+ * Create a clock. When a time is passed, the clock is pinned to it.
+ * Otherwise, the clock uses the system time.
+ *
+ * @example
+ * ```ts
+ * const pinned = createClock("2024-01-01T00:00:00.000Z");
+ * pinned.now(); // 2024-01-01T00:00:00.000Z, every time
+ * ```
+ */
+export function createClock(time?: ClockTime): Clock {
+  if (time == null) return { now: () => new Date() };
+  if (typeof time === "function") return { now: () => new Date(time()) };
+
+  const fixed = new Date(time).getTime();
+  return { now: () => new Date(fixed) };
+}
+
+let globalClock = createClock();
+
+/**
+ * Key used to store the clock of a factory context.
+ */
+const GLOBAL_CLOCK_KEY = {};
+
+/**
+ * Stack of clocks used while generating objects for factories with their own
+ * `now` option.
+ */
+const activeClocks: Clock[] = [];
+
+function getActiveClock(): Clock {
+  return (
+    activeClocks.at(-1) ??
+    getContextValue<Clock | undefined>(GLOBAL_CLOCK_KEY, (options) =>
+      options.now == null ? undefined : createClock(options.now),
+    ) ??
+    globalClock
+  );
+}
+
+/**
+ * Clock to use inside function defaults. When a factory has a `now` option,
+ * the time comes from the factory's clock. Otherwise it comes from a global
+ * clock, which can be pinned with {@link setFactoryClock}.
+ *
+ * @example
+ * ```ts
+ * const postFactory = createFactory<Post>({
+ *   createdAt: () => clock.now(),
+ * });
+ * ```
+ */
+export const clock: Clock = {
+  now: () => getActiveClock().now(),
+};
+
+/**
+ * Pin the global clock used by {@link clock} to a specific time. Call without
+ * arguments to use the system time again.
+ *
+ * @example
+ * ```ts
+ * setFactoryClock("2024-01-01T00:00:00.000Z");
+ * postFactory(); // { createdAt: 2024-01-01T00:00:00.000Z, ... }
+ * ```
+ */
+export function setFactoryClock(time?: ClockTime): void {
+  const clock = createClock(time);
+  if (!setContextValue(GLOBAL_CLOCK_KEY, clock)) globalClock = clock;
+}
+
+/**
+ * Run a function while {@link clock} uses a specific clock.
+ */
+export function withClock<T>(clock: Clock | undefined, fn: () => T): T {
+  if (clock == null) return fn();
+
+  activeClocks.push(clock);
+  try {
+    return fn();
+  } finally {
+    activeClocks.pop();
+  }
+}
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns a random date between `from` (inclusive) and `to` (exclusive),
+ * using {@link random}.
+ *
+ * @example
+ * ```ts
+ * dateBetween("2024-01-01", "2025-01-01");
+ * ```
+ */
+export function dateBetween(
+  from: Date | string | number,
+  to: Date | string | number,
+): Date {
+  const fromTime = new Date(from).getTime();
+  const toTime = new Date(to).getTime();
+  return new Date(Math.floor(random.float(fromTime, toTime)));
+}
+
+/**
+ * Returns a random date in the past few days, relative to {@link clock}.
+ *
+ * @param days How many days in the past the date can be. Defaults to 1.
+ */
+export function recentDate(days = 1): Date {
+  const now = clock.now().getTime();
+  return dateBetween(now - days * ONE_DAY, now);
+}
+
+/**
+ * Returns a random date in the next few days, relative to {@link clock}.
+ *
+ * @param days How many days in the future the date can be. Defaults to 1.
+ */
+export function futureDate(days = 1): Date {
+  const now = clock.now().getTime();
+  return dateBetween(now + 1, now + days * ONE_DAY + 1);
+}
@@ -0,0 +1,176 @@
+import type { ClockTime } from "./clock";
+
+/**
+ * Options for {@link withFactoryContext} and `factory.fork()`.
+ */
+export type FactoryContextOptions = {
+  /**
+   * Seed for the context's random number generator. When not passed, a
+   * random seed is used.
+   */
+  seed?: number;
+
+  /**
+   * Pin the context's clock to a specific time. When not passed, the global
+   * clock is used.
+   */
+  now?: ClockTime;
+};
+
+/**
+ * Isolated state for sequences, unique functions, random number generators,
+ * and clocks.
+ */
+export type FactoryContext = {
+  options: FactoryContextOptions;
+  values: WeakMap<object, unknown>;
+};
+
+type ContextStorage = {
+  run<T>(context: FactoryContext, fn: () => T): T;
+  get(): FactoryContext | undefined;
+};
+
+const storage = createContextStorage();
+
+function createContextStorage(): ContextStorage {
+  // Use async context propagation when available, so the context is kept
+  // across `await`s
+  const asyncHooks = (globalThis as any).process?.getBuiltinModule?.(
+    "node:async_hooks",
+  );
+  if (asyncHooks?.AsyncLocalStorage) {
+    const asyncStorage = new asyncHooks.AsyncLocalStorage();
+    return {
+      run: (context, fn) => asyncStorage.run(context, fn),
+      get: () => asyncStorage.getStore(),
+    };
+  }
+
+  // Otherwise, the context is only active for synchronous code
+  const stack: FactoryContext[] = [];
+  return {
+    run: (context, fn) => {
+      stack.push(context);
+      try {
+        return fn();
+      } finally {
+        stack.pop();
+      }
+    },
+    get: () => stack.at(-1),
+  };
+}
+
+/**
+ * Create an isolated context.
+ */
+export function createFactoryContext(
+  options: FactoryContextOptions = {},
+): FactoryContext {
+  return { options, values: new WeakMap() };
+}
+
+/**
+ * Contexts of forked factories, so resetting every sequence, or all factory
+ * state, reaches forks too.
+ */
+const forkedContexts = new Set<WeakRef<FactoryContext>>();
+const forgetContext = new FinalizationRegistry<WeakRef<FactoryContext>>((ref) =>
+  forkedContexts.delete(ref),
+);
+
+/**
+ * Create the isolated context of a forked factory.
+ */
+export function createForkedContext(
+  options?: FactoryContextOptions,
+): FactoryContext {
+  const context = createFactoryContext(options);
+  const ref = new WeakRef(context);
+  forkedContexts.add(ref);
+  forgetContext.register(context, ref);
+  return context;
+}
+
+/**
+ * Returns the contexts of every forked factory that hasn't been garbage
+ * collected.
+ */
+export function getForkedContexts(): FactoryContext[] {
+  return Array.from(forkedContexts, (ref) => ref.deref()).filter(
+    (context) => context != null,
+  );
+}
+
+/**
+ * Forget every value stored in a context, so its sequences, unique values,
+ * random number generators, and clock start over from its options.
+ */
+export function clearFactoryContext(context: FactoryContext): void {
+  context.values = new WeakMap();
+}
+
+/**
+ * Run a function in a specific context.
+ */
+export function runInFactoryContext<T>(
+  context: FactoryContext | undefined,
+  fn: () => T,
+): T {
+  return context == null ? fn() : storage.run(context, fn);
+}
+
+/**
+ * Returns the active context's value for a key, like a sequence, creating it
+ * the first time. Returns `undefined` outside a context, so callers can fall
+ * back to their global state.
+ */
+export function getContextValue<T>(
+  key: object,
+  create: (options: FactoryContextOptions) => T,
+): T | undefined {
+  const context = storage.get();
+  if (context == null) return;
+
+  if (!context.values.has(key))
+    context.values.set(key, create(context.options));
+  return context.values.get(key) as T;
+}
+
+/**
+ * Replace the active context's value for a key. Returns `false` outside a
+ * context, so callers can update their global state instead.
+ */
+export function setContextValue(key: object, value: unknown): boolean {
+  const context = storage.get();
+  if (context == null) return false;
+
+  context.values.set(key, value);
+  return true;
+}
+
+/**
+ * Run a function with its own sequences, unique values, random number
+ * generators, and clock, so tests running concurrently don't affect each
+ * other. Factories don't need to be re-created. The context is kept across
+ * `await`s in runtimes supporting `AsyncLocalStorage`, like Node, Bun, and
+ * Deno. Elsewhere, it's only active until the first `await`.
+ *
+ * Objects generated outside a context use the global state.
+ *
+ * @example
+ * ```ts
+ * it.concurrent("creates a user", () =>
+ *   withFactoryContext(async () => {
+ *     const user = await userFactory.create(); // Always "user-0"
+ *   }, { seed: 123 }),
+ * );
+ * ```
+ */
+export function withFactoryContext<T>(
+  fn: () => T,
+  options?: FactoryContextOptions,
+): T {
+  return runInFactoryContext(createFactoryContext(options), fn);
+}
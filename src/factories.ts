@@ -1,6 +1,27 @@
+import { createClock, withClock, type Clock, type ClockTime } from "./clock";
 import {
+  createForkedContext,
+  runInFactoryContext,
+  type FactoryContext,
+  type FactoryContextOptions,
+} from "./context";
+import type { PersistenceAdapter } from "./persistence";
+import {
+  createFactoryArbitrary,
+  type Arbitrary,
+  type ArbitraryOptions,
+} from "./properties";
+import { createFactoryRandom, random, withRandom, type Random } from "./random";
+import { resetSequences } from "./sequences";
+import { recordFactoryCall } from "./testing";
+import { assertUniqueValues } from "./unique";
+import {
+  deepFreeze,
   deepMerge,
+  FACTORY_DEFINITION,
   resolveDefaults,
+  type FactoryDefinition,
+  type FactoryLookup,
   type DeepPartial,
   type FactoryDefaults,
 } from "./utils";
@@ -9,26 +30,50 @@ import {
 /**
  * A factory is a:
  * - Function that, when called, returns a new object as defined by the default values.
- * - Object containing any `.traitName(...)` functions that, when called, return a new object applying the trait's defaults over the factory's base defaults.
- * - Object containing immutable modifier functions (`trait`) that, when called, returns a new factory with more ways of generating objects.
+ * - Object containing any `.traitName` factories that apply the trait's defaults over the factory's current defaults.
+ * - Object containing any `.traitName(...args)` functions for parameterized traits that, when called, return a factory applying the trait's defaults.
+ * - Object containing immutable modifier functions (`trait`, `with`, ...) that, when called, returns a new factory with more ways of generating objects.
+ *
+ * Traits and associations can be applied in any order. Each one is applied
+ * over the values of the ones before it.
  */
 export type Factory<
   TObject extends Record<string, any>,
   TTraits extends string | undefined = undefined,
-  TAssociations extends Record<string, any> = {}
+  TAssociations extends Record<string, any> = {},
+  TTransient extends Record<string, any> = {},
+  TResult = TObject,
+  TTraitArgs extends Record<string, any[]> = {},
+  TRelations extends Record<string, any> = {}
 > =
-    FactoryFn<TObject, TAssociations>
-  & TraitFactoryFns<TObject, TTraits extends string ? TTraits : never, TAssociations>
-  & FactoryModifiers<TObject, TTraits>;
+    FactoryFn<TObject, TAssociations, TTransient, TResult, TRelations>
+  & TraitFactoryFns<TObject, TTraits extends string ? TTraits : never, TAssociations, TTransient, TResult, TTraitArgs, TRelations>
+  & FactoryModifiers<TObject, TTraits, TAssociations, TTransient, TResult, TTraitArgs, TRelations>;
+
+/**
+ * Values passed into a factory function to override the default values. Can
+ * include the factory's transient attributes.
+ */
+export type FactoryOverrides<
+  TObject,
+  TTransient extends Record<string, any> = {},
+> = keyof TTransient extends never
+  ? DeepPartial<TObject>
+  : DeepPartial<TObject> & Partial<TTransient>;
 
 /**
- * Function that takes in overrides and returns a new object.
+ * Function that takes in overrides and returns a new object. When the factory
+ * has a constructor, overrides apply to the object's attributes (`TObject`)
+ * and the factory returns the constructed value (`TResult`).
  */
 export type FactoryFn<
   TObject,
   TAssociations extends Record<string, any> = {},
+  TTransient extends Record<string, any> = {},
+  TResult = TObject,
+  TRelations extends Record<string, any> = {},
 > = {
-  (overrides?: DeepPartial<TObject>): TObject;
+  (overrides?: FactoryOverrides<TObject, TTransient>): TResult;
 
   /**
    * Generate multiple items.
@@ -44,25 +89,203 @@ export type FactoryFn<
    * // ]
    * ```
    */
-  many(count: number, overrides?: DeepPartial<TObject>): TObject[];
+  many(
+    count: number,
+    overrides?:
+      | FactoryOverrides<TObject, TTransient>
+      | ((index: number) => FactoryOverrides<TObject, TTransient>),
+  ): TResult[];
+  /**
+   * Generate multiple items, with different overrides for each item. Items
+   * past the end of the array don't have any overrides applied.
+   *
+   * @example
+   * ```ts
+   * userFactory.many(2, [{ role: "admin" }, { role: "guest" }]);
+   * // [
+   * //   { id: "user-0", role: "admin", ... },
+   * //   { id: "user-1", role: "guest", ... },
+   * // ]
+   * ```
+   */
+  many<
+    TCount extends number,
+    TItems extends ReadonlyArray<FactoryOverrides<TObject, TTransient>> | [],
+  >(
+    count: TCount,
+    overrides: TItems & MaxLength<TItems, TCount>,
+  ): TResult[];
+
+  /**
+   * Generate an object, and return it along with the associated objects used
+   * to generate it. Includes associations passed into `with` and associations
+   * built by their factory.
+   *
+   * @example
+   * ```ts
+   * const { object: post, associations } = postFactory.build();
+   * associations.user; // { id: "user-0", ... }
+   * post.userId; // "user-0"
+   * ```
+   */
+  build(
+    overrides?: FactoryOverrides<TObject, TTransient>,
+  ): BuildResult<TResult, TAssociations>;
+
+  /**
+   * Generate an object along with its related objects, as declared with
+   * {@link FactoryModifiers#hasMany}. Related objects are generated
+   * recursively, and each relationship is only followed once per path, so
+   * circular relationships end.
+   *
+   * @example
+   * ```ts
+   * const graph = userFactory.graph();
+   * graph.object; // { id: "user-0", ... }
+   * graph.related.posts; // [{ object: { userId: "user-0", ... }, ... }, ...]
+   * ```
+   */
+  graph(
+    overrides?: FactoryOverrides<TObject, TTransient>,
+  ): GraphNode<TResult, TAssociations, TRelations>;
 
   /**
-   * Apply associations and return a new factory function.
+   * Generate an object and persist it using the factory's
+   * {@link FactoryOptions#adapter}. Resolves to the persisted record.
    *
-   * @see {@link FactoryModifiers#associate}
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User>(
+   *   { id: createSequence("user-"), username: "username" },
+   *   { adapter: createMemoryAdapter() },
+   * );
+   *
+   * await userFactory.create({ username: "override" });
+   * // { id: "user-0", username: "override" }
+   * ```
    */
-  with(associations: Partial<TAssociations>): FactoryFn<TObject, {}>;
+  create(overrides?: FactoryOverrides<TObject, TTransient>): Promise<TResult>;
+
+  /**
+   * Generate and persist multiple items.
+   *
+   * @see {@link FactoryFn#create}
+   */
+  createMany(
+    count: number,
+    overrides?:
+      | FactoryOverrides<TObject, TTransient>
+      | ((index: number) => FactoryOverrides<TObject, TTransient>),
+  ): Promise<TResult[]>;
+  /**
+   * Generate and persist multiple items, with different overrides for each
+   * item.
+   *
+   * @see {@link FactoryFn#many}
+   */
+  createMany<
+    TCount extends number,
+    TItems extends ReadonlyArray<FactoryOverrides<TObject, TTransient>> | [],
+  >(
+    count: TCount,
+    overrides: TItems & MaxLength<TItems, TCount>,
+  ): Promise<TResult[]>;
+};
+
+/**
+ * An object generated by {@link FactoryFn#build}, along with its associated
+ * objects.
+ */
+export type BuildResult<TResult, TAssociations extends Record<string, any>> = {
+  object: TResult;
+  associations: Partial<TAssociations>;
+};
+
+/**
+ * An object generated by {@link FactoryFn#graph}, along with its associated
+ * and related objects.
+ */
+export type GraphNode<
+  TResult,
+  TAssociations extends Record<string, any> = {},
+  TRelations extends Record<string, any> = {},
+> = BuildResult<TResult, TAssociations> & {
+  related: { [key in keyof TRelations]: TRelations[key][] };
 };
 
 /**
- * Map of factory functions for traits.
+ * Causes a type error when a tuple of overrides has more items than the
+ * number of objects being generated. Only checked when both lengths are known.
+ */
+// prettier-ignore
+export type MaxLength<
+  TItems extends readonly unknown[],
+  TCount extends number,
+> = number extends TCount
+  ? unknown
+  : `${TCount}` extends keyof TItems
+    ? { error: `Expected at most ${TCount} overrides, but got ${TItems["length"]}` }
+    : unknown;
+
+/**
+ * Map of factories for traits.
  */
 export type TraitFactoryFns<
-  TObject,
+  TObject extends Record<string, any>,
   TTraits extends string,
   TAssociations extends Record<string, any> = {},
+  TTransient extends Record<string, any> = {},
+  TResult = TObject,
+  TTraitArgs extends Record<string, any[]> = {},
+  TRelations extends Record<string, any> = {},
 > = {
-  [name in TTraits]: FactoryFn<TObject, TAssociations>;
+  [name in TTraits]: Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+} & {
+  [name in keyof TTraitArgs]: (
+    ...args: TTraitArgs[name]
+  ) => Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+} & {
+  /**
+   * Returns a factory that applies multiple traits, in order. Later
+   * traits override the default values of earlier traits.
+   *
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User>({ ... })
+   *   .trait("admin", { role: "admin" })
+   *   .trait("unsubscribed", { subscribedToEmails: false });
+   *
+   * userFactory.traits("admin", "unsubscribed")();
+   * // { role: "admin", subscribedToEmails: false, ... }
+   * ```
+   */
+  traits(
+    ...names: TTraits[]
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
 };
 
 /**
@@ -72,7 +295,54 @@ export type FactoryModifiers<
   TObject extends Record<string, any>,
   TTraits extends string | undefined,
   TAssociations extends Record<string, any> = {},
+  TTransient extends Record<string, any> = {},
+  TResult = TObject,
+  TTraitArgs extends Record<string, any[]> = {},
+  TRelations extends Record<string, any> = {},
 > = {
+  /**
+   * Add a parameterized trait. The trait becomes a function on the factory
+   * that accepts the same arguments and returns a factory function.
+   *
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User>({
+   *   // ...
+   *   age: 30,
+   * })
+   *   .trait("aged", (age: number) => ({ age }))
+   *
+   * userFactory.aged(18)() // { age: 18 }
+   * userFactory.aged(65).many(2) // [{ age: 65 }, { age: 65 }]
+   * ```
+   *
+   * @param name The name of the trait to add. Can't be the name of one of
+   *             the factory's functions, like `build` or `many`.
+   * @param traitDefaults Function that returns the default values to apply
+   *                      over the factory's base default values.
+   * @param options Other traits this trait extends, and hooks specific to
+   *                this trait.
+   */
+  trait<T2 extends string, TArgs extends any[]>(
+    name: T2,
+    traitDefaults: (
+      ...args: TArgs
+    ) => DeepPartial<FactoryDefaults<TObject, TObject & TTransient>>,
+    options?: TraitOptions<
+      TResult,
+      TTransient,
+      TTraits extends string ? TTraits : never
+    >,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    AddTraitArgs<TTraitArgs, T2, TArgs>,
+    TRelations
+  >;
+
   /**
    * Add a trait or variant to the factory, allowing developers to create the
    * object with multiple sets of default values.
@@ -89,15 +359,196 @@ export type FactoryModifiers<
    * userFactory.unsubscribed() // { subscribedToEmails: false }
    * ```
    *
-   * @param name The name of the trait to add
+   * @param name The name of the trait to add. Can't be the name of one of
+   *             the factory's functions, like `build` or `many`.
    * @param traitDefaults Default values to apply over the factory's base
    *                      default values. These can still be overridden when
    *                      calling the factory function.
+   * @param options Other traits this trait extends, and hooks specific to
+   *                this trait.
    */
   trait<T2 extends string>(
     name: T2,
-    traitDefaults: DeepPartial<FactoryDefaults<TObject>>,
-  ): Factory<TObject, AddTrait<TTraits, T2>>;
+    traitDefaults: DeepPartial<FactoryDefaults<TObject, TObject & TTransient>>,
+    options?: TraitOptions<
+      TResult,
+      TTransient,
+      TTraits extends string ? TTraits : never
+    >,
+  ): Factory<
+    TObject,
+    AddTrait<TTraits, T2>,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Add a hook that is called after an object is generated. Hooks are called
+   * after default values, associations, and overrides have been applied, in
+   * the order they were added. Trait-specific hooks are called after the
+   * factory's hooks.
+   *
+   * Return a new object to replace the generated object.
+   *
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User>({
+   *   username: "Username",
+   * }).afterBuild((user) => ({
+   *   ...user,
+   *   username: user.username.toLowerCase(),
+   * }));
+   *
+   * userFactory({ username: "OVERRIDE" }) // { username: "override" }
+   * ```
+   */
+  afterBuild(
+    hook: AfterBuildHook<TResult, TTransient>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Add a hook that is called by `create` and `createMany` before an object
+   * is persisted, after the `afterBuild` hooks.
+   *
+   * Return a new object to replace the object that will be persisted.
+   */
+  beforeCreate(
+    hook: CreateHook<TResult, TTransient>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Add a hook that is called by `create` and `createMany` after an object
+   * is persisted. The hook receives the record returned by the adapter.
+   *
+   * Return a new object to replace the record `create` resolves to.
+   */
+  afterCreate(
+    hook: CreateHook<TResult, TTransient>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Returns a factory for a subtype of the object, inheriting the factory's
+   * default values, traits, associations, and hooks. Defaults are required
+   * for any properties the subtype adds. The original factory is unchanged.
+   *
+   * @example
+   * ```ts
+   * type AdminUser = User & { permissions: string[] };
+   *
+   * const adminFactory = userFactory.extend<AdminUser>({
+   *   permissions: ["*"],
+   * });
+   *
+   * adminFactory.unsubscribed(); // { permissions: ["*"], subscribedToEmails: false, ... }
+   * ```
+   *
+   * @param extraDefaults Default values for the subtype's new properties,
+   *                      and any inherited default values to replace.
+   */
+  extend<TSub extends TObject>(
+    extraDefaults: ExtendDefaults<TObject, TSub, TTransient>,
+  ): Factory<
+    TSub,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult extends TObject ? TSub : TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Returns a copy of the factory with its own sequences, unique values,
+   * random number generators, and clock, isolated from other factories. The
+   * original factory is unchanged. Traits and associations applied to the
+   * copy share its state.
+   *
+   * @see {@link withFactoryContext} to isolate every factory used by a test.
+   *
+   * @example
+   * ```ts
+   * const isolatedUserFactory = userFactory.fork({ seed: 123 });
+   * isolatedUserFactory(); // { id: "user-0", ... }
+   * isolatedUserFactory(); // { id: "user-1", ... }
+   * userFactory(); // { id: "user-0", ... }
+   * ```
+   */
+  fork(
+    options?: FactoryContextOptions,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Returns an {@link Arbitrary} that generates objects for property tests,
+   * applying random combinations of traits. Usually, pass the factory to
+   * {@link forAll} directly instead.
+   *
+   * @example
+   * ```ts
+   * forAll(userFactory.arbitrary({ traits: ["admin"] }), (user) => {
+   *   expect(canLogin(user)).toBe(true);
+   * });
+   * ```
+   */
+  arbitrary(
+    options?: ArbitraryOptions<Exclude<TTraits, undefined>>,
+  ): Arbitrary<TResult>;
+
+  /**
+   * Returns a factory that applies the values of associations added with
+   * {@link FactoryModifiers#associate}.
+   *
+   * @example
+   * ```ts
+   * postFactory.with({ user }).published();
+   * postFactory.published.with({ user })();
+   * ```
+   */
+  with(
+    associations: Partial<TAssociations>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
 
   /**
    * Returns a factory that uses associations to apply default values.
@@ -157,10 +608,145 @@ export type FactoryModifiers<
    */
   associate<TKey extends string, TValue>(
     key: TKey,
-    apply: (value: TValue) => DeepPartial<TObject>,
-  ): Factory<TObject, TTraits, AddAssociation<TAssociations, TKey, TValue>>;
+    apply: (
+      value: TValue,
+    ) => DeepPartial<FactoryDefaults<TObject, TObject & TTransient>>,
+    options?: AssociationOptions<TValue>,
+  ): Factory<
+    TObject,
+    TTraits,
+    AddAssociation<TAssociations, TKey, TValue>,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    TRelations
+  >;
+
+  /**
+   * Declare that each object has many related objects, generated by another
+   * factory. Related objects are only generated by
+   * {@link FactoryFn#graph}.
+   *
+   * @example
+   * ```ts
+   * const postFactory = createFactory<Post>({ ... })
+   *   .associate("user", (user: User) => ({ userId: user.id }));
+   * const userFactory = createFactory<User>({ ... })
+   *   .hasMany("posts", postFactory, { count: 2, inverse: "user" });
+   *
+   * const { object: user, related } = userFactory.graph();
+   * related.posts[0].object.userId === user.id; // true
+   * ```
+   *
+   * @param key The name of the relationship.
+   * @param factory The factory used to generate related objects.
+   * @param options How many related objects to generate, and which of the
+   *                related factory's associations to pass the object into.
+   */
+  hasMany<TKey extends string, TFactory extends RelatedFactory>(
+    key: TKey,
+    factory: TFactory,
+    options: HasManyOptions<TFactory>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    AddRelation<TRelations, TKey, ReturnType<TFactory["graph"]>>
+  >;
+  /**
+   * Declare a has-many relationship with a factory that is defined later,
+   * like the factory itself.
+   *
+   * @example
+   * ```ts
+   * const userFactory: Factory<User, ...> = createFactory<User>({ ... })
+   *   .hasMany("friends", () => userFactory, { count: 2 });
+   * ```
+   */
+  hasMany<TKey extends string, TFactory extends RelatedFactory>(
+    key: TKey,
+    getFactory: () => TFactory,
+    options: HasManyOptions<TFactory>,
+  ): Factory<
+    TObject,
+    TTraits,
+    TAssociations,
+    TTransient,
+    TResult,
+    TTraitArgs,
+    AddRelation<TRelations, TKey, ReturnType<TFactory["graph"]>>
+  >;
+};
+
+/**
+ * A factory that can be used with {@link FactoryModifiers#hasMany}.
+ */
+export type RelatedFactory = {
+  graph(): GraphNode<any, any, any>;
+  with(associations: any): RelatedFactory;
 };
 
+/**
+ * Options for a has-many relationship.
+ */
+export type HasManyOptions<TFactory extends RelatedFactory> = {
+  /**
+   * The number of related objects to generate for each object.
+   */
+  count: number;
+
+  /**
+   * The related factory's association to pass the object into, so related
+   * objects can reference it.
+   */
+  inverse?: keyof NonNullable<Parameters<TFactory["with"]>[0]> & string;
+};
+
+/**
+ * Options for a single association.
+ */
+export type AssociationOptions<TValue> = {
+  /**
+   * Build the associated value when one isn't passed into `with`, usually
+   * another factory. Associated values are built, not persisted, even when
+   * calling `create`.
+   *
+   * @example
+   * ```ts
+   * const postFactory = createFactory<Post>({ ... }).associate(
+   *   "user",
+   *   (user: User) => ({ userId: user.id }),
+   *   { build: userFactory },
+   * );
+   *
+   * postFactory(); // { userId: "user-0", ... }
+   * ```
+   *
+   * When the factory is registered with `defineFactories`, pass the name of
+   * another registered factory instead, like `"user"` or `"user:admin"`, so
+   * the factories don't need to import each other.
+   *
+   * The value is built even when overrides replace the values it applies, so
+   * the value returned by `factory.build()` may not match the generated
+   * object. Pass a value into `with` to use it instead.
+   */
+  build?: (() => TValue) | (string & {});
+};
+
+/**
+ * Default values passed into {@link FactoryModifiers#extend}. Properties the
+ * subtype adds are required, inherited properties are optional.
+ */
+export type ExtendDefaults<
+  TObject extends Record<string, any>,
+  TSub extends TObject,
+  TTransient extends Record<string, any> = {},
+> = FactoryDefaults<Omit<TSub, keyof TObject>, TSub & TTransient> &
+  DeepPartial<FactoryDefaults<TObject, TSub & TTransient>>;
+
 // prettier-ignore
 export type AddTrait<
   T1 extends string | undefined,
@@ -169,6 +755,24 @@ export type AddTrait<
   ? T1 | T2
   : T2;
 
+export type AddTraitArgs<
+  TTraitArgs extends Record<string, any[]>,
+  TName extends string,
+  TArgs extends any[],
+> = {
+  [name in keyof TTraitArgs | TName]: name extends TName
+    ? TArgs
+    : TTraitArgs[name];
+};
+
+export type AddRelation<
+  TRelations extends Record<string, any>,
+  TKey extends string,
+  TNode,
+> = {
+  [key in keyof TRelations | TKey]: key extends TKey ? TNode : TRelations[key];
+};
+
 export type AddAssociation<
   TAssociations extends Record<string, any>,
   TKey extends string,
@@ -179,109 +783,756 @@ export type AddAssociation<
     : TAssociations[key];
 };
 
+/**
+ * Hook called after an object is generated. Receives the generated object and
+ * the resolved transient attributes.
+ */
+export type AfterBuildHook<TObject, TTransient = {}> = (
+  object: TObject,
+  transient: TTransient,
+) => TObject | void;
+
+/**
+ * Hook called before or after an object is persisted by `create` or
+ * `createMany`.
+ */
+export type CreateHook<TObject, TTransient = {}> = (
+  object: TObject,
+  transient: TTransient,
+) => TObject | void | Promise<TObject | void>;
+
+/**
+ * Hooks specific to a single trait.
+ */
+export type FactoryHooks<TObject, TTransient = {}> = {
+  afterBuild?: AfterBuildHook<TObject, TTransient>;
+  beforeCreate?: CreateHook<TObject, TTransient>;
+  afterCreate?: CreateHook<TObject, TTransient>;
+};
+
+/**
+ * Options for a single trait.
+ */
+export type TraitOptions<
+  TObject,
+  TTransient = {},
+  TTraits extends string = never,
+> = FactoryHooks<TObject, TTransient> & {
+  /**
+   * Other traits to apply before this trait's default values. Their hooks are
+   * called before this trait's hooks.
+   *
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User>({ ... })
+   *   .trait("admin", { role: "admin" })
+   *   .trait("superAdmin", { permissions: ["*"] }, { extends: ["admin"] });
+   *
+   * userFactory.superAdmin(); // { role: "admin", permissions: ["*"], ... }
+   * ```
+   */
+  extends?: TTraits[];
+};
+
+/**
+ * Options that configure how a factory generates objects.
+ */
+export type FactoryOptions<
+  TObject extends Record<string, any>,
+  TTransient extends Record<string, any> = {},
+  TResult = TObject,
+> = {
+  /**
+   * Adapter used by `factory.create(...)` and `factory.createMany(...)` to
+   * persist the generated objects.
+   */
+  adapter?: PersistenceAdapter<TResult>;
+
+  /**
+   * Seed for the factory's own random number generator. When set, function
+   * defaults using {@link random} generate the same objects, in the same
+   * order, every time the tests are ran. Otherwise the global generator is
+   * used, which can be seeded via {@link setSeed}.
+   */
+  seed?: number;
+
+  /**
+   * Pin the time returned by {@link clock} while generating objects, like
+   * `"2024-01-01T00:00:00.000Z"`. Otherwise the global clock is used, which
+   * can be pinned via {@link setFactoryClock}.
+   */
+  now?: ClockTime;
+
+  /**
+   * Default values for transient attributes. Transient attributes can be
+   * passed in alongside overrides and are visible to function defaults, but
+   * are not included in the generated object.
+   *
+   * @example
+   * ```ts
+   * const userFactory = createFactory<User, { isVerified: boolean }>(
+   *   {
+   *     username: "username",
+   *     verifiedAt: ({ isVerified }) => (isVerified ? new Date() : null),
+   *   },
+   *   { transient: { isVerified: false } },
+   * );
+   *
+   * userFactory({ isVerified: true });
+   * // { username: "username", verifiedAt: Date }
+   * ```
+   */
+  transient?: FactoryDefaults<TTransient, TObject & TTransient>;
+
+  /**
+   * When `true`, generated objects are deeply frozen after the `afterBuild`
+   * hooks are called, so tests can't accidentally mutate them. Only the
+   * arrays and plain objects in them are frozen, class instances like
+   * `Date` or overrides of your own classes are left as is.
+   */
+  freeze?: boolean;
+};
+
+/**
+ * Function or class used to turn the generated attributes into the object
+ * returned by a factory.
+ */
+export type FactoryConstructor<TAttributes, TResult> =
+  | ((attributes: TAttributes) => TResult)
+  | (new (attributes: TAttributes) => TResult);
+
+/**
+ * Options parameter of {@link createFactory}. The `transient` option is
+ * required when the factory has transient attributes, including optional
+ * ones, so they always have a default value and are never left in the
+ * generated object.
+ */
+type CreateFactoryOptions<
+  TObject extends Record<string, any>,
+  TTransient extends Record<string, any>,
+  TResult = TObject,
+> = keyof TTransient extends never
+  ? [options?: FactoryOptions<TObject, TTransient, TResult>]
+  : [
+      options: FactoryOptions<TObject, TTransient, TResult> & {
+        transient: FactoryDefaults<
+          { [key in keyof Required<TTransient>]: TTransient[key] },
+          TObject & TTransient
+        >;
+      },
+    ];
+
 /**
  * Create a function that returns objects of the specified type.
  * @param defaults The default values for the returned object. Each property can be a value or function that return a value.
+ * @param options Additional configuration for the factory.
  */
-export function createFactory<T extends Record<string, any>>(
-  defaults: FactoryDefaults<T>,
-): Factory<T> {
+export function createFactory<
+  T extends Record<string, any>,
+  TTransient extends Record<string, any> = {},
+>(
+  defaults: FactoryDefaults<T, T & TTransient>,
+  ...[options]: CreateFactoryOptions<T, TTransient>
+): Factory<T, undefined, {}, TTransient>;
+/**
+ * Create a function that returns class instances, or any other value built
+ * from the generated attributes. Overrides, traits, and associations all apply
+ * to the attributes, before they're passed into the constructor.
+ *
+ * @param construct A class or function that accepts the generated attributes.
+ * @param defaults The default values for the attributes. Each property can be a value or function that return a value.
+ * @param options Additional configuration for the factory.
+ *
+ * @example
+ * ```ts
+ * class User {
+ *   constructor(readonly attributes: { id: string; username: string }) {}
+ * }
+ *
+ * const userFactory = createFactory(User, {
+ *   id: createSequence("user-"),
+ *   username: "username",
+ * });
+ *
+ * userFactory({ username: "override" }); // User { ... }
+ * ```
+ */
+export function createFactory<
+  TResult,
+  TAttributes extends Record<string, any>,
+  TTransient extends Record<string, any> = {},
+>(
+  construct: FactoryConstructor<TAttributes, TResult>,
+  defaults: FactoryDefaults<TAttributes, TAttributes & TTransient>,
+  ...[options]: CreateFactoryOptions<TAttributes, TTransient, TResult>
+): Factory<TAttributes, undefined, {}, TTransient, TResult>;
+export function createFactory(...args: any[]): Factory<any, any, any, any> {
+  const [construct, defaults, options = {}] =
+    typeof args[0] === "function" ? args : [undefined, ...args];
+
   return createFactoryInternal(defaults, {
     traits: {},
     associations: {},
+    relations: {},
+    layers: [],
+    hooks: { afterBuild: [], beforeCreate: [], afterCreate: [] },
+    options,
+    construct,
+    random:
+      options.seed == null ? undefined : createFactoryRandom(options.seed),
+    clock: options.now == null ? undefined : createClock(options.now),
   });
 }
 
+type FactoryState<T extends Record<string, any>> = {
+  traits: Record<string, Trait<T>>;
+  associations: Record<string, Association<T>>;
+  relations: Record<string, Relation>;
+  /**
+   * Registry the factory was registered with, used to look up factories
+   * referenced by name.
+   */
+  registry?: FactoryLookup;
+  /**
+   * Name the factory was registered under, shown in the factory call log.
+   */
+  name?: string;
+  layers: Layer[];
+  hooks: HookLists<T>;
+  options: FactoryOptions<T, any, any>;
+  construct: FactoryConstructor<T, any> | undefined;
+  random: Random | undefined;
+  clock: Clock | undefined;
+  /**
+   * Context of a forked factory.
+   */
+  context?: FactoryContext;
+};
+
+type Trait<T extends Record<string, any>> = {
+  defaults:
+    | DeepPartial<FactoryDefaults<T>>
+    | ((...args: any[]) => DeepPartial<FactoryDefaults<T>>);
+  options: TraitOptions<T, any, string>;
+};
+
+type Association<T extends Record<string, any>> = {
+  apply: (value: any) => DeepPartial<FactoryDefaults<T>>;
+  options: AssociationOptions<any>;
+};
+
+type Relation = {
+  factory: RelatedFactory | (() => RelatedFactory);
+  options: HasManyOptions<any>;
+};
+
+/**
+ * Relationships followed by the graphs currently being generated, used to
+ * stop following circular relationships.
+ */
+const graphPath: Relation[] = [];
+
+/**
+ * Traits or associations applied over the factory's defaults, in the order
+ * they were applied.
+ */
+type Layer =
+  | { traits: string[]; args?: any[] }
+  | { associations: Record<string, any> };
+
+type HookLists<T extends Record<string, any>> = {
+  [name in keyof FactoryHooks<T>]-?: Array<
+    NonNullable<FactoryHooks<T, any>[name]>
+  >;
+};
+
+type BuiltObject<T> = {
+  object: T;
+  transient: Record<string, any>;
+  associations: Record<string, any>;
+};
+
 function createFactoryInternal<T extends Record<string, any>>(
   defaults: FactoryDefaults<T>,
-  state: {
-    traits: Record<string, FactoryDefaults<T>>;
-    associations: Record<string, (value: any) => DeepPartial<T>>;
-  },
-): Factory<T, any> {
-  const createFactoryFn = (
-    factoryDefaults: FactoryDefaults<T>,
-  ): FactoryFn<T> => {
-    const factoryFn = (overrides?: any): any =>
-      generateObject(factoryDefaults, overrides);
-
-    factoryFn.many = (count: number, overrides?: any): T[] =>
-      generateManyObjects(count, factoryDefaults, overrides);
-
-    factoryFn.with = (associations: Record<string, any>) => {
-      const combinedDefaults = Object.entries(associations).reduce(
-        (acc, [key, value]) => {
-          if (state.associations[key]) {
-            const override = state.associations[key](value);
-            return deepMerge<any>(acc, override);
-          } else {
-            return acc;
-          }
-        },
-        defaults,
-      );
+  state: FactoryState<T>,
+): Factory<T, any, any, any> {
+  // Layers are resolved on first use, so extending an unknown trait only
+  // throws when the trait is used
+  let resolved: ResolvedLayers<T> | undefined;
+  const resolve = () => (resolved ??= resolveLayers(defaults, state));
+
+  const build = (overrides: any): BuiltObject<T> => {
+    const { defaults, hooks, associations } = resolve();
+    const built = buildAssociations(state, associations);
 
-      return createFactoryInternal(combinedDefaults, state);
+    return {
+      ...generateObject(
+        state,
+        hooks,
+        applyAssociations(state, defaults, built),
+        overrides,
+      ),
+      associations: { ...associations, ...built },
     };
+  };
+
+  // Record calls for test reports, and generate objects in the context of
+  // forked factories
+  const run = <R>(method: string, args: unknown[], fn: () => R): R =>
+    recordFactoryCall(
+      {
+        factory: state.name,
+        traits: state.layers.flatMap((layer) =>
+          "traits" in layer ? layer.traits : [],
+        ),
+        method,
+        args,
+      },
+      () => runInFactoryContext(state.context, fn),
+    );
+
+  const factoryFn = (overrides?: any): any =>
+    run("", [overrides], () => build(overrides).object);
+
+  factoryFn.build = (overrides?: any): BuildResult<T, any> =>
+    run("build", [overrides], () => {
+      const { object, associations } = build(overrides);
+      return { object, associations };
+    });
+
+  factoryFn.graph = (overrides?: any): GraphNode<T, any, any> =>
+    run("graph", [overrides], () => {
+      const { object, associations } = build(overrides);
+      const related: Record<string, GraphNode<any>[]> = {};
+
+      for (const [key, relation] of Object.entries(state.relations)) {
+        if (graphPath.includes(relation)) continue;
+
+        const { count, inverse } = relation.options;
+        const factory = getRelatedFactory(relation);
+        const relatedFactory = inverse
+          ? factory.with({ [inverse]: object })
+          : factory;
 
-    return factoryFn as FactoryFn<T>;
+        graphPath.push(relation);
+        try {
+          related[key] = Array.from({ length: count }, () =>
+            relatedFactory.graph(),
+          );
+        } finally {
+          graphPath.pop();
+        }
+      }
+
+      return { object, associations, related };
+    });
+
+  const buildMany = (count: number, overrides: any): BuiltObject<T>[] => {
+    const built = Array.from({ length: count }, (_, i) =>
+      build(getItemOverrides(overrides, i)),
+    );
+    assertUniqueValues(
+      resolve().defaults,
+      built.map(({ object }) => object),
+    );
+    return built;
   };
 
-  return Object.assign(
-    // Base factory function
-    createFactoryFn(defaults),
-
-    {
-      // Modifier functions
-
-      trait: (
-        name: string,
-        traitDefaults: DeepPartial<FactoryDefaults<T>>,
-      ): Factory<T, any> =>
-        createFactoryInternal(defaults, {
-          ...state,
-          traits: {
-            ...state.traits,
-            [name]: deepMerge<FactoryDefaults<T>>(defaults, traitDefaults),
-          },
-        }),
+  factoryFn.many = (count: number, overrides?: any): T[] =>
+    run("many", [count, overrides], () =>
+      buildMany(count, overrides).map(({ object }) => object),
+    );
+
+  factoryFn.create = (overrides?: any): Promise<T> =>
+    run("create", [overrides], async () => {
+      const [record] = await createObjects(state, resolve().hooks, [
+        build(overrides),
+      ]);
+      return record!;
+    });
+
+  factoryFn.createMany = (count: number, overrides?: any): Promise<T[]> =>
+    run(
+      "createMany",
+      [count, overrides],
+      async () =>
+        await createObjects(
+          state,
+          resolve().hooks,
+          buildMany(count, overrides),
+        ),
+    );
+
+  const applyLayer = (layer: Layer): Factory<T, any, any, any> =>
+    createFactoryInternal(defaults, {
+      ...state,
+      layers: [...state.layers, layer],
+    });
 
-      associate: (key: string, apply: (value: any) => any) => {
-        return createFactoryInternal(defaults, {
-          ...state,
-          associations: {
-            ...state.associations,
-            [key]: apply,
-          },
-        });
+  const addHook =
+    (name: keyof HookLists<T>) =>
+    (hook: any): Factory<T, any, any, any> =>
+      createFactoryInternal(defaults, {
+        ...state,
+        hooks: addHooks(state.hooks, { [name]: hook }),
+      });
+
+  const factory = Object.assign(factoryFn, {
+    [FACTORY_DEFINITION]: {
+      defaults,
+      transient: state.options.transient ?? {},
+      traits: state.traits,
+      random: state.random,
+      context: state.context,
+      reset: () => {
+        resetSequences(factory);
+        // Reset the context's copy of the generator for forked factories
+        if (state.random != null)
+          runInFactoryContext(state.context, () =>
+            withRandom(state.random, () => random.reset()),
+          );
       },
+      register: (registry, name) =>
+        createFactoryInternal(defaults, { ...state, registry, name }),
+    } satisfies FactoryDefinition,
+
+    // Modifier functions
+
+    trait: (
+      name: string,
+      traitDefaults: Trait<T>["defaults"],
+      options: TraitOptions<T, any, string> = {},
+    ): Factory<T, any, any, any> => {
+      // Traits are defined as properties of the factory, so they can't
+      // replace its functions
+      if (name in factory && !Object.hasOwn(state.traits, name))
+        throw Error(
+          `Cannot add a trait named "${name}", the name is reserved for the factory's "${name}" property.`,
+        );
 
-      // Generate Trait functions
+      return createFactoryInternal(defaults, {
+        ...state,
+        traits: {
+          ...state.traits,
+          [name]: { defaults: traitDefaults, options },
+        },
+      });
+    },
 
-      ...Object.fromEntries<any>(
-        Object.entries(state.traits).map<any>(([name, traitDefaults]) => [
-          name,
-          createFactoryFn(traitDefaults),
-        ]),
+    associate: (
+      key: string,
+      apply: Association<T>["apply"],
+      options: AssociationOptions<any> = {},
+    ) => {
+      return createFactoryInternal(defaults as FactoryDefaults<T>, {
+        ...state,
+        associations: {
+          ...state.associations,
+          [key]: { apply, options },
+        },
+      });
+    },
+
+    extend: (extraDefaults: Record<string, any>): Factory<any, any, any, any> =>
+      createFactoryInternal<any>(
+        deepMerge<any>(defaults, extraDefaults),
+        state,
       ),
+
+    hasMany: (
+      key: string,
+      factory: Relation["factory"],
+      options: HasManyOptions<any>,
+    ) =>
+      createFactoryInternal(defaults, {
+        ...state,
+        relations: { ...state.relations, [key]: { factory, options } },
+      }),
+
+    with: (associations: Record<string, any>) => applyLayer({ associations }),
+
+    fork: (options?: FactoryContextOptions): Factory<T, any, any, any> =>
+      createFactoryInternal(defaults, {
+        ...state,
+        context: createForkedContext(options),
+      }),
+
+    afterBuild: addHook("afterBuild"),
+    beforeCreate: addHook("beforeCreate"),
+    afterCreate: addHook("afterCreate"),
+
+    // Trait factories
+
+    traits: (...names: string[]) => applyLayer({ traits: names }),
+
+    arbitrary: (options?: ArbitraryOptions): Arbitrary<T> =>
+      createFactoryArbitrary(
+        factory,
+        options?.traits ??
+          Object.keys(state.traits).filter(
+            (name) => typeof state.traits[name]!.defaults !== "function",
+          ),
+      ),
+  });
+
+  for (const [name, trait] of Object.entries(state.traits)) {
+    if (typeof trait.defaults === "function") {
+      Object.defineProperty(factory, name, {
+        enumerable: true,
+        value: (...args: any[]) => applyLayer({ traits: [name], args }),
+      });
+    } else {
+      // Trait factories are created on first access, otherwise each trait
+      // factory would create its own trait factories forever
+      let traitFactory: Factory<T, any, any, any> | undefined;
+      Object.defineProperty(factory, name, {
+        enumerable: true,
+        get: () => (traitFactory ??= applyLayer({ traits: [name] })),
+      });
+    }
+  }
+
+  return factory as any;
+}
+
+type ResolvedLayers<T extends Record<string, any>> = {
+  defaults: FactoryDefaults<T>;
+  hooks: HookLists<T>;
+  /**
+   * Values passed into `with`.
+   */
+  associations: Record<string, any>;
+};
+
+/**
+ * Applies each layer's default values and hooks over the factory's, in order.
+ */
+function resolveLayers<T extends Record<string, any>>(
+  defaults: FactoryDefaults<T>,
+  state: FactoryState<T>,
+): ResolvedLayers<T> {
+  return state.layers.reduce<ResolvedLayers<T>>(
+    (acc, layer) => {
+      if ("associations" in layer) {
+        return {
+          ...acc,
+          defaults: applyAssociations(state, acc.defaults, layer.associations),
+          associations: { ...acc.associations, ...layer.associations },
+        };
+      }
+
+      return expandTraits(state.traits, layer.traits).reduce(
+        (acc, trait) => ({
+          defaults: deepMerge<any>(
+            acc.defaults,
+            typeof trait.defaults === "function"
+              ? trait.defaults(...(layer.args ?? []))
+              : trait.defaults,
+          ),
+          hooks: addHooks(acc.hooks, trait.options),
+          associations: acc.associations,
+        }),
+        acc,
+      );
     },
-  ) as any;
+    { defaults, hooks: state.hooks, associations: {} },
+  );
 }
 
-function generateObject<T extends Record<string, any>>(
+/**
+ * Applies the default values of each association with a value.
+ */
+function applyAssociations<T extends Record<string, any>>(
+  state: FactoryState<T>,
   defaults: FactoryDefaults<T>,
-  overrides: DeepPartial<T>,
-): T {
-  const resolvedDefaults: T = resolveDefaults<T>(defaults);
-  return deepMerge<T>(resolvedDefaults, overrides);
+  values: Record<string, any>,
+): FactoryDefaults<T> {
+  return Object.entries(values).reduce((acc, [key, value]) => {
+    const association = state.associations[key];
+    return association ? deepMerge<any>(acc, association.apply(value)) : acc;
+  }, defaults);
 }
 
-function generateManyObjects<T extends Record<string, any>>(
-  count: number,
+/**
+ * Builds the value of each association that has a `build` function and
+ * wasn't passed into `with`.
+ */
+function buildAssociations<T extends Record<string, any>>(
+  state: FactoryState<T>,
+  passed: Record<string, any>,
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(state.associations)
+      .filter(
+        ([key, association]) => association.options.build && !(key in passed),
+      )
+      .map(([key, association]) => {
+        const build = association.options.build!;
+        if (typeof build === "function") return [key, build()];
+
+        if (state.registry == null)
+          throw Error(
+            `Cannot build "${build}" for the "${key}" association. Register the factory with \`defineFactories\` to reference other factories by name.`,
+          );
+        return [key, state.registry.get(build)()];
+      }),
+  );
+}
+
+/**
+ * Returns the factory used to generate a relationship's objects, calling the
+ * function that returns it when necessary.
+ */
+function getRelatedFactory(relation: Relation): RelatedFactory {
+  return FACTORY_DEFINITION in relation.factory
+    ? (relation.factory as RelatedFactory)
+    : (relation.factory as () => RelatedFactory)();
+}
+
+/**
+ * Returns the traits to apply, in order, including any traits they extend.
+ * When a trait is applied more than once, only the last one is kept.
+ */
+function expandTraits<T extends Record<string, any>>(
+  traits: Record<string, Trait<T>>,
+  names: string[],
+  expanding: string[] = [],
+): Trait<T>[] {
+  const expanded = names.flatMap((name) => {
+    const trait = traits[name];
+    if (trait == null) throw Error(`Unknown trait "${name}"`);
+    if (expanding.includes(name))
+      throw Error(
+        `Circular trait extension detected: ${[...expanding, name].join(" -> ")}`,
+      );
+
+    return [
+      ...expandTraits(traits, trait.options.extends ?? [], [
+        ...expanding,
+        name,
+      ]),
+      trait,
+    ];
+  });
+
+  return expanded.filter((trait, i) => expanded.lastIndexOf(trait) === i);
+}
+
+/**
+ * Returns the overrides for a single item generated by `many` or `createMany`.
+ */
+function getItemOverrides(overrides: any, index: number): any {
+  if (typeof overrides === "function") return overrides(index);
+  if (Array.isArray(overrides)) return overrides[index];
+  return overrides;
+}
+
+function addHooks<T extends Record<string, any>>(
+  hooks: HookLists<T>,
+  additional: FactoryHooks<T, any>,
+): HookLists<T> {
+  return {
+    afterBuild: [...hooks.afterBuild, additional.afterBuild ?? []].flat(),
+    beforeCreate: [...hooks.beforeCreate, additional.beforeCreate ?? []].flat(),
+    afterCreate: [...hooks.afterCreate, additional.afterCreate ?? []].flat(),
+  };
+}
+
+function generateObject<T extends Record<string, any>>(
+  state: FactoryState<T>,
+  hooks: HookLists<T>,
   defaults: FactoryDefaults<T>,
   overrides: DeepPartial<T>,
-): T[] {
-  return Array.from({ length: count }, () =>
-    generateObject(defaults, overrides),
+): Omit<BuiltObject<T>, "associations"> {
+  return withClock(state.clock, () =>
+    withRandom(state.random, () => {
+      const transientDefaults = state.options.transient ?? {};
+      let object = resolveDefaults<T>(
+        { ...transientDefaults, ...defaults },
+        overrides,
+      );
+
+      // Move transient attributes out of the generated object
+      const transient: Record<string, any> = {};
+      for (const key of Object.keys(transientDefaults)) {
+        transient[key] = object[key];
+        delete object[key];
+      }
+
+      if (state.construct) object = constructObject(state.construct, object);
+
+      object = hooks.afterBuild.reduce<T>(
+        (object, hook) => hook(object, transient) ?? object,
+        object,
+      );
+      if (state.options.freeze) deepFreeze(object);
+
+      return { object, transient };
+    }),
+  );
+}
+
+function constructObject<T extends Record<string, any>>(
+  construct: FactoryConstructor<T, any>,
+  attributes: T,
+): any {
+  // Arrow functions can't be called with `new`. Classes and regular functions
+  // can, and when a regular function returns an object, `new` returns it too.
+  return construct.prototype
+    ? new (construct as new (attributes: T) => any)(attributes)
+    : (construct as (attributes: T) => any)(attributes);
+}
+
+async function createObjects<T extends Record<string, any>>(
+  state: FactoryState<T>,
+  hooks: HookLists<T>,
+  builtObjects: BuiltObject<T>[],
+): Promise<T[]> {
+  const adapter = getAdapter(state);
+
+  const objects: T[] = [];
+  for (const { object, transient } of builtObjects)
+    objects.push(await runCreateHooks(hooks.beforeCreate, object, transient));
+
+  const records =
+    objects.length === 1
+      ? [await adapter.insert(objects[0]!)]
+      : await insertMany(adapter, objects);
+
+  return await Promise.all(
+    records.map((record, i) =>
+      runCreateHooks(hooks.afterCreate, record, builtObjects[i]!.transient),
+    ),
   );
 }
+
+async function runCreateHooks<T extends Record<string, any>>(
+  hooks: CreateHook<T, any>[],
+  object: T,
+  transient: Record<string, any>,
+): Promise<T> {
+  for (const hook of hooks) object = (await hook(object, transient)) ?? object;
+  return object;
+}
+
+function getAdapter<T extends Record<string, any>>(
+  state: FactoryState<T>,
+): PersistenceAdapter<T> {
+  if (state.options.adapter) return state.options.adapter;
+
+  throw Error(
+    "Cannot create objects without a persistence adapter. Pass an `adapter` to `createFactory` to use `create` or `createMany`.",
+  );
+}
+
+async function insertMany<T>(
+  adapter: PersistenceAdapter<T>,
+  objects: T[],
+): Promise<T[]> {
+  if (adapter.insertMany) return await adapter.insertMany(objects);
+
+  // Insert sequentially so records are persisted in a predictable order
+  const records: T[] = [];
+  for (const object of objects) records.push(await adapter.insert(object));
+  return records;
+}
@@ -0,0 +1,321 @@
+import { random } from "./random";
+
+/**
+ * A postal address generated by {@link fake}.
+ */
+export type FakeAddress = {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+};
+
+/**
+ * Fake values for common properties. Every function takes no arguments, so
+ * they can be used as function defaults directly.
+ */
+export type Fake = {
+  /**
+   * Returns a first name, like `"Ada"`.
+   */
+  firstName(): string;
+
+  /**
+   * Returns a last name, like `"Lovelace"`.
+   */
+  lastName(): string;
+
+  /**
+   * Returns a first and last name, like `"Ada Lovelace"`.
+   */
+  fullName(): string;
+
+  /**
+   * Returns a username, like `"ada.lovelace42"`.
+   */
+  username(): string;
+
+  /**
+   * Returns an email address at a reserved example domain, like
+   * `"ada.lovelace42@example.com"`.
+   */
+  email(): string;
+
+  /**
+   * Returns a version 4 UUID.
+   */
+  uuid(): string;
+
+  /**
+   * Returns a lorem ipsum word, like `"dolor"`.
+   */
+  word(): string;
+
+  /**
+   * Returns 3 to 5 lorem ipsum words separated by spaces.
+   */
+  words(): string;
+
+  /**
+   * Returns a lorem ipsum sentence, starting with a capital letter and ending
+   * with a period.
+   */
+  sentence(): string;
+
+  /**
+   * Returns 3 to 5 lorem ipsum sentences.
+   */
+  paragraph(): string;
+
+  /**
+   * Returns an HTTPS URL at a reserved example domain, like
+   * `"https://lorem.example.com/dolor"`.
+   */
+  url(): string;
+
+  /**
+   * Returns a US phone number in the range reserved for fiction, like
+   * `"(312) 555-0142"`.
+   */
+  phoneNumber(): string;
+
+  /**
+   * Returns a street address, like `"742 Maple Avenue"`.
+   */
+  streetAddress(): string;
+
+  /**
+   * Returns a city name, like `"Springfield"`.
+   */
+  city(): string;
+
+  /**
+   * Returns a US state name, like `"Oregon"`.
+   */
+  state(): string;
+
+  /**
+   * Returns a 5 digit zip code, like `"04217"`.
+   */
+  zipCode(): string;
+
+  /**
+   * Returns a country name, like `"Canada"`.
+   */
+  country(): string;
+
+  /**
+   * Returns a full postal address.
+   */
+  address(): FakeAddress;
+
+  /**
+   * Returns a lowercase hex color, like `"#1a2b3c"`.
+   */
+  hexColor(): string;
+};
+
+const FIRST_NAMES = [
+  "Ada",
+  "Alan",
+  "Amara",
+  "Carlos",
+  "Chen",
+  "Diego",
+  "Elena",
+  "Fatima",
+  "Grace",
+  "Hiro",
+  "Ingrid",
+  "James",
+  "Kofi",
+  "Leila",
+  "Linus",
+  "Maria",
+  "Noah",
+  "Olivia",
+  "Priya",
+  "Sofia",
+];
+
+const LAST_NAMES = [
+  "Anderson",
+  "Brown",
+  "Garcia",
+  "Hopper",
+  "Ivanova",
+  "Johnson",
+  "Kim",
+  "Lee",
+  "Lovelace",
+  "Martin",
+  "Mensah",
+  "Nguyen",
+  "Okafor",
+  "Patel",
+  "Rossi",
+  "Sato",
+  "Smith",
+  "Turing",
+  "Wilson",
+  "Young",
+];
+
+const LOREM_WORDS = [
+  "lorem",
+  "ipsum",
+  "dolor",
+  "sit",
+  "amet",
+  "consectetur",
+  "adipiscing",
+  "elit",
+  "sed",
+  "do",
+  "eiusmod",
+  "tempor",
+  "incididunt",
+  "ut",
+  "labore",
+  "et",
+  "dolore",
+  "magna",
+  "aliqua",
+  "enim",
+  "minim",
+  "veniam",
+  "quis",
+  "nostrud",
+];
+
+const STREET_NAMES = [
+  "Maple",
+  "Oak",
+  "Pine",
+  "Cedar",
+  "Elm",
+  "Main",
+  "Park",
+  "Lake",
+  "Hill",
+  "River",
+];
+
+const STREET_SUFFIXES = ["Street", "Avenue", "Road", "Lane", "Drive", "Court"];
+
+const CITIES = [
+  "Springfield",
+  "Riverside",
+  "Fairview",
+  "Franklin",
+  "Greenville",
+  "Madison",
+  "Georgetown",
+  "Salem",
+  "Clinton",
+  "Arlington",
+];
+
+const STATES = [
+  "California",
+  "Colorado",
+  "Florida",
+  "Georgia",
+  "Illinois",
+  "Maine",
+  "New York",
+  "Ohio",
+  "Oregon",
+  "Texas",
+  "Vermont",
+  "Washington",
+];
+
+const COUNTRIES = [
+  "Australia",
+  "Brazil",
+  "Canada",
+  "France",
+  "Germany",
+  "India",
+  "Japan",
+  "Kenya",
+  "Mexico",
+  "United States",
+];
+
+const EXAMPLE_DOMAINS = ["example.com", "example.org", "example.net"];
+
+/**
+ * Generate fake values. Values come from {@link random}, so they're
+ * reproducible with `setSeed` or a factory's `seed` option.
+ *
+ * @example
+ * ```ts
+ * const userFactory = createFactory<User>({
+ *   id: fake.uuid,
+ *   name: fake.fullName,
+ *   email: fake.email,
+ *   address: fake.address,
+ * });
+ * ```
+ */
+export const fake: Fake = {
+  firstName: () => random.pick(FIRST_NAMES),
+  lastName: () => random.pick(LAST_NAMES),
+  fullName: () => `${fake.firstName()} ${fake.lastName()}`,
+  username: () =>
+    `${fake.firstName()}.${fake.lastName()}${random.int(1, 99)}`.toLowerCase(),
+  email: () => `${fake.username()}@${random.pick(EXAMPLE_DOMAINS)}`,
+  uuid: () => {
+    const hex = repeat(32, hexDigit);
+    hex[12] = "4";
+    hex[16] = (8 + random.int(0, 3)).toString(16);
+    const digits = hex.join("");
+    return [
+      digits.slice(0, 8),
+      digits.slice(8, 12),
+      digits.slice(12, 16),
+      digits.slice(16, 20),
+      digits.slice(20),
+    ].join("-");
+  },
+  word: () => random.pick(LOREM_WORDS),
+  words: () => repeat(random.int(3, 5), fake.word).join(" "),
+  sentence: () => {
+    const words = repeat(random.int(5, 10), fake.word).join(" ");
+    return `${words[0]!.toUpperCase()}${words.slice(1)}.`;
+  },
+  paragraph: () => repeat(random.int(3, 5), fake.sentence).join(" "),
+  url: () =>
+    `https://${fake.word()}.${random.pick(EXAMPLE_DOMAINS)}/${fake.word()}`,
+  phoneNumber: () =>
+    `(${random.int(201, 989)}) 555-01${padDigits(random.int(0, 99), 2)}`,
+  streetAddress: () =>
+    `${random.int(1, 9999)} ${random.pick(STREET_NAMES)} ${random.pick(STREET_SUFFIXES)}`,
+  city: () => random.pick(CITIES),
+  state: () => random.pick(STATES),
+  zipCode: () => padDigits(random.int(0, 99999), 5),
+  country: () => random.pick(COUNTRIES),
+  address: () => ({
+    street: fake.streetAddress(),
+    city: fake.city(),
+    state: fake.state(),
+    zipCode: fake.zipCode(),
+    country: fake.country(),
+  }),
+  hexColor: () => `#${repeat(6, hexDigit).join("")}`,
+};
+
+function repeat<T>(count: number, fn: () => T): T[] {
+  return Array.from({ length: count }, fn);
+}
+
+function hexDigit(): string {
+  return random.int(0, 15).toString(16);
+}
+
+function padDigits(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
@@ -0,0 +1,66 @@
+import type { GraphNode } from "./factories";
+
+/**
+ * Objects from a graph, grouped by the name of the relationship they were
+ * generated for.
+ */
+// prettier-ignore
+export type FlatGraph<TKey extends string, TNode> =
+  TNode extends { object: infer TResult; related: infer TRelated }
+    ? { [key in TKey]: TResult[] } & UnionToIntersection<{
+        [key in keyof TRelated & string]: TRelated[key] extends Array<infer TChild>
+          ? FlatGraph<key, TChild>
+          : never;
+      }[keyof TRelated & string]>
+    : never;
+
+// prettier-ignore
+type UnionToIntersection<T> =
+  (T extends any ? (value: T) => void : never) extends (value: infer I) => void
+    ? I
+    : never;
+
+/**
+ * Flatten a graph generated by `factory.graph()` into arrays of objects, one
+ * per relationship name. Useful for seeding a database table by table.
+ *
+ * Tables are added in the order they're first reached, so objects always come
+ * after the objects they're related to. Each object is only included once.
+ *
+ * @param graph The graph to flatten.
+ * @param rootKey The name of the table to add the graph's root object to.
+ *
+ * @example
+ * ```ts
+ * const tables = flattenGraph(userFactory.graph(), "users");
+ * // {
+ * //   users: [{ id: "user-0", ... }],
+ * //   posts: [{ userId: "user-0", ... }, { userId: "user-0", ... }],
+ * // }
+ *
+ * for (const [table, rows] of Object.entries(tables)) {
+ *   await db.insert(table, rows);
+ * }
+ * ```
+ */
+export function flattenGraph<
+  TKey extends string,
+  TNode extends GraphNode<any, any, any>,
+>(graph: TNode, rootKey: TKey): FlatGraph<TKey, TNode> {
+  const tables: Record<string, unknown[]> = {};
+  const seen = new Set<unknown>();
+
+  const visit = (key: string, node: GraphNode<any, any, any>): void => {
+    if (seen.has(node.object)) return;
+    seen.add(node.object);
+
+    (tables[key] ??= []).push(node.object);
+    for (const [relatedKey, nodes] of Object.entries(node.related)) {
+      for (const related of nodes as GraphNode<any, any, any>[])
+        visit(relatedKey, related);
+    }
+  };
+  visit(rootKey, graph);
+
+  return tables as FlatGraph<TKey, TNode>;
+}
@@ -1,3 +1,34 @@
+export * from "./arrays";
+export {
+  clock,
+  createClock,
+  dateBetween,
+  futureDate,
+  recentDate,
+  setFactoryClock,
+  type Clock,
+  type ClockTime,
+} from "./clock";
+export { withFactoryContext, type FactoryContextOptions } from "./context";
 export * from "./factories";
+export * from "./fake";
+export * from "./graphs";
+export * from "./persistence";
+export {
+  forAll,
+  type Arbitrary,
+  type ArbitraryOptions,
+  type ForAllOptions,
+} from "./properties";
+export { createRandom, random, setSeed, type Random } from "./random";
+export * from "./registry";
+export * from "./reset";
 export * from "./sequences";
+export {
+  getFactoryTestReport,
+  startFactoryTest,
+  type FactoryTestOptions,
+} from "./testing";
+export { unique, type Unique, type UniqueOptions } from "./unique";
 export type { DeepPartial } from "./utils";
+export { registerValueType, type ValueTypeOptions } from "./values";
@@ -0,0 +1,70 @@
+/**
+ * Saves objects generated by a factory somewhere, like a database, and returns
+ * the persisted records.
+ *
+ * Used by `factory.create(...)` and `factory.createMany(...)`.
+ */
+export type PersistenceAdapter<T> = {
+  /**
+   * Persist a single object and return the stored record.
+   */
+  insert(object: T): T | Promise<T>;
+
+  /**
+   * Persist multiple objects at once and return the stored records in the
+   * same order. When not implemented, `insert` is called for each object
+   * instead.
+   */
+  insertMany?(objects: T[]): T[] | Promise<T[]>;
+};
+
+/**
+ * Adapter that stores records in an array. Useful for testing code that uses
+ * `factory.create(...)` without a real database.
+ */
+export type MemoryAdapter<T> = PersistenceAdapter<T> & {
+  /**
+   * All the records inserted into the adapter, in the order they were
+   * inserted.
+   */
+  readonly records: T[];
+
+  /**
+   * Remove all the stored records.
+   */
+  clear(): void;
+};
+
+/**
+ * Create a {@link PersistenceAdapter} that stores records in memory.
+ *
+ * @example
+ * ```ts
+ * const users = createMemoryAdapter<User>();
+ * const userFactory = createFactory<User>(
+ *   { id: createSequence("user-"), username: "username" },
+ *   { adapter: users },
+ * );
+ *
+ * await userFactory.create();
+ * users.records; // [{ id: "user-0", username: "username" }]
+ * ```
+ */
+export function createMemoryAdapter<T>(): MemoryAdapter<T> {
+  const records: T[] = [];
+
+  return {
+    records,
+    insert: (object) => {
+      records.push(object);
+      return object;
+    },
+    insertMany: (objects) => {
+      records.push(...objects);
+      return objects;
+    },
+    clear: () => {
+      records.length = 0;
+    },
+  };
+}
@@ -0,0 +1,219 @@
+import { withFactoryContext } from "./context";
+import { createRandom, randomSeed, replaceFactorySeeds } from "./random";
+import { isMergeable } from "./utils";
+
+/**
+ * Generates random values for property tests, and simpler variants of them
+ * to shrink counterexamples.
+ */
+export type Arbitrary<T> = {
+  /**
+   * Generate a random value. The same seed always generates the same value.
+   */
+  generate(seed: number): T;
+
+  /**
+   * Returns simpler variants of a value, simplest first.
+   */
+  shrink(value: T): Iterable<T>;
+};
+
+/**
+ * Options for `factory.arbitrary()`.
+ */
+export type ArbitraryOptions<TTraits extends string = string> = {
+  /**
+   * Traits randomly applied to generated objects. Defaults to every trait
+   * that doesn't take arguments. Pass an empty array to only use the
+   * factory's defaults.
+   */
+  traits?: TTraits[];
+};
+
+/**
+ * Options for {@link forAll}.
+ */
+export type ForAllOptions = {
+  /**
+   * How many values to generate. Defaults to 100.
+   */
+  runs?: number;
+
+  /**
+   * Seed used to generate values. Pass the seed of a failed property to
+   * replay it. When not passed, a random seed is used.
+   */
+  seed?: number;
+
+  /**
+   * How many simpler variants to check before giving up on shrinking a
+   * counterexample. Defaults to 1000.
+   */
+  maxShrinks?: number;
+};
+
+const DEFAULT_RUNS = 100;
+const DEFAULT_MAX_SHRINKS = 1000;
+
+/**
+ * Check that a predicate holds for many generated values. The predicate
+ * fails when it returns `false` or throws, like a failed `expect`.
+ *
+ * When it fails, the value is shrunk toward the factory's defaults, one
+ * property at a time, and an error is thrown with the smallest value that
+ * still fails and the seed to replay it.
+ *
+ * @param source A factory, or an {@link Arbitrary} from `factory.arbitrary()`.
+ * @param predicate Returns `false` or throws when the property doesn't hold.
+ * @param options Configure the number of runs, the seed, and shrinking.
+ *
+ * @example
+ * ```ts
+ * forAll(userFactory, (user) => {
+ *   expect(canLogin(user)).toBe(!user.banned);
+ * });
+ * ```
+ */
+export function forAll<T>(
+  source: Arbitrary<T> | { arbitrary(): Arbitrary<T> },
+  predicate: (value: T) => boolean | void,
+  options: ForAllOptions = {},
+): void {
+  const {
+    runs = DEFAULT_RUNS,
+    seed = randomSeed(),
+    maxShrinks = DEFAULT_MAX_SHRINKS,
+  } = options;
+  const arbitrary = "generate" in source ? source : source.arbitrary();
+  const seeds = createRandom(seed);
+
+  for (let run = 1; run <= runs; run++) {
+    const runSeed = seeds.int(0, 2 ** 32 - 1);
+    const value = arbitrary.generate(runSeed);
+    let failure = check(predicate, value);
+    if (failure == null) continue;
+
+    // Keep replacing the counterexample with the first simpler variant that
+    // still fails
+    let counterexample = value;
+    let shrinks = 0;
+    let attempts = 0;
+    shrinking: while (attempts < maxShrinks) {
+      for (const candidate of arbitrary.shrink(counterexample)) {
+        if (attempts++ >= maxShrinks) break shrinking;
+
+        const candidateFailure = check(predicate, candidate);
+        if (candidateFailure != null) {
+          counterexample = candidate;
+          failure = candidateFailure;
+          shrinks++;
+          continue shrinking;
+        }
+      }
+      break;
+    }
+
+    throw Error(
+      `Property failed after ${run} ${run === 1 ? "run" : "runs"} (seed: ${seed}, shrunk ${shrinks} times).\n\nCounterexample: ${formatValue(counterexample)}\n\n${failure.message}`,
+      { cause: failure.error },
+    );
+  }
+}
+
+/**
+ * Create the {@link Arbitrary} returned by `factory.arbitrary()`. Each value
+ * is generated in its own factory context, so sequences and random defaults
+ * only depend on the seed, even for factories with their own `seed`. Values are shrunk toward a base object, generated
+ * without traits using a fixed seed.
+ */
+export function createFactoryArbitrary<T>(
+  factory: { (): T; traits(...names: string[]): () => T },
+  traits: string[],
+): Arbitrary<T> {
+  let base: { value: T } | undefined;
+
+  return {
+    generate: (seed) => {
+      const rng = createRandom(seed);
+      const names = traits.filter(() => rng.boolean());
+      const variant = names.length > 0 ? factory.traits(...names) : factory;
+      return withFactoryContext(
+        () => {
+          replaceFactorySeeds(seed);
+          return variant();
+        },
+        { seed },
+      );
+    },
+    shrink: (value) => {
+      base ??= { value: withFactoryContext(() => factory(), { seed: 0 }) };
+      return shrinkToward(value, base.value);
+    },
+  };
+}
+
+/**
+ * Returns variants of a value with a single property replaced by the base
+ * value's property. Numbers are also moved halfway toward the base, and
+ * array items are removed.
+ */
+function* shrinkToward<T>(value: T, base: unknown): Generator<T> {
+  if (isMergeable(value)) {
+    const baseObject = isMergeable(base) ? base : {};
+    for (const [key, item] of Object.entries(value)) {
+      for (const shrunk of shrinkToward(item, baseObject[key]))
+        yield { ...value, [key]: shrunk };
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const baseArray = Array.isArray(base) ? base : [];
+    for (let i = 0; i < value.length; i++) yield value.toSpliced(i, 1) as T;
+    for (let i = 0; i < value.length; i++) {
+      for (const shrunk of shrinkToward(value[i], baseArray[i]))
+        yield value.with(i, shrunk) as T;
+    }
+    return;
+  }
+
+  if (base === undefined || isSameValue(value, base)) return;
+  yield base as T;
+
+  if (typeof value === "number" && typeof base === "number") {
+    const halfway = (value + base) / 2;
+    const shrunk = Number.isInteger(value) ? Math.trunc(halfway) : halfway;
+    if (shrunk !== value && shrunk !== base) yield shrunk as T;
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime();
+  return Object.is(a, b);
+}
+
+type Failure = { message: string; error?: unknown };
+
+function check<T>(
+  predicate: (value: T) => boolean | void,
+  value: T,
+): Failure | undefined {
+  try {
+    if (predicate(value) === false)
+      return { message: "The predicate returned false." };
+  } catch (error) {
+    return {
+      message: error instanceof Error ? error.message : String(error),
+      error,
+    };
+  }
+}
+
+function formatValue(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,258 @@
+import { getContextValue, setContextValue } from "./context";
+
+/**
+ * A seeded, pseudo-random number generator. The same seed always produces the
+ * same values, in the same order.
+ */
+export type Random = {
+  /**
+   * The seed used to create the generator. Print it when a test fails so the
+   * same values can be generated again with {@link setSeed}.
+   */
+  readonly seed: number;
+
+  /**
+   * Returns a float between 0 (inclusive) and 1 (exclusive), like
+   * `Math.random()`.
+   */
+  next(): number;
+
+  /**
+   * Returns an integer between `min` and `max`, both inclusive.
+   */
+  int(min: number, max: number): number;
+
+  /**
+   * Returns a float between `min` (inclusive) and `max` (exclusive).
+   */
+  float(min?: number, max?: number): number;
+
+  /**
+   * Returns `true` with the given probability, 50% by default.
+   */
+  boolean(probability?: number): boolean;
+
+  /**
+   * Returns a random item from the array.
+   */
+  pick<T>(items: readonly T[]): T;
+
+  /**
+   * Returns a shuffled copy of the array.
+   */
+  shuffle<T>(items: readonly T[]): T[];
+
+  /**
+   * Returns a random value, where values with higher weights are more likely
+   * to be returned.
+   *
+   * @example
+   * ```ts
+   * random.weighted([
+   *   ["admin", 1],
+   *   ["user", 9],
+   * ]); // "user" 90% of the time
+   * ```
+   */
+  weighted<T>(entries: ReadonlyArray<readonly [value: T, weight: number]>): T;
+
+  /**
+   * Start over from the beginning of the seed.
+   */
+  reset(): void;
+};
+
+/**
+ * Create a seeded random number generator.
+ *
+ * @param seed Any integer. When not passed, a random seed is used.
+ *
+ * @example
+ * ```ts
+ * const rng = createRandom(123);
+ * rng.int(1, 10); // Always the same value for seed 123
+ * ```
+ */
+export function createRandom(seed: number = randomSeed()): Random {
+  let state = seed >>> 0;
+
+  // Mulberry32: https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    float: (min = 0, max = 1) => min + next() * (max - min),
+    boolean: (probability = 0.5) => next() < probability,
+    pick: (items) => {
+      if (items.length === 0) throw Error("Cannot pick from an empty array");
+      return items[Math.floor(next() * items.length)]!;
+    },
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+      }
+      return shuffled;
+    },
+    weighted: (entries) => {
+      const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+      if (total <= 0) throw Error("Weights must add up to more than 0");
+
+      let remaining = next() * total;
+      for (const [value, weight] of entries) {
+        remaining -= weight;
+        if (remaining < 0) return value;
+      }
+      return entries.at(-1)![0];
+    },
+    reset: () => {
+      state = seed >>> 0;
+    },
+  };
+}
+
+/**
+ * Returns a random seed for {@link createRandom}.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+let globalRandom = createRandom();
+
+/**
+ * Key used to store the global generator of a factory context.
+ */
+const GLOBAL_RANDOM_KEY = {};
+
+/**
+ * Stack of generators used while generating objects for factories with their
+ * own seed.
+ */
+const activeRandoms: Random[] = [];
+
+/**
+ * Key used to store the seed that replaces factory seeds in a factory context.
+ */
+const FACTORY_SEED_KEY = {};
+
+function getActiveRandom(): Random {
+  const rng = activeRandoms.at(-1);
+
+  // Factory contexts get their own copy of each generator
+  if (rng != null)
+    return (
+      getContextValue(rng, () => {
+        const seed = getContextValue<number | undefined>(
+          FACTORY_SEED_KEY,
+          () => undefined,
+        );
+        return createRandom(seed == null ? rng.seed : seed ^ rng.seed);
+      }) ?? rng
+    );
+  return (
+    getContextValue(GLOBAL_RANDOM_KEY, (options) =>
+      createRandom(options.seed),
+    ) ?? globalRandom
+  );
+}
+
+/**
+ * Random number generator to use inside function defaults. When a factory has
+ * a `seed`, the values come from the factory's generator. Otherwise they come
+ * from a global generator, which can be seeded with {@link setSeed}.
+ *
+ * @example
+ * ```ts
+ * const userFactory = createFactory<User>({
+ *   age: () => random.int(18, 99),
+ *   role: () => random.pick(["admin", "user"]),
+ * });
+ * ```
+ */
+export const random: Random = {
+  get seed() {
+    return getActiveRandom().seed;
+  },
+  next: () => getActiveRandom().next(),
+  int: (min, max) => getActiveRandom().int(min, max),
+  float: (min, max) => getActiveRandom().float(min, max),
+  boolean: (probability) => getActiveRandom().boolean(probability),
+  pick: (items) => getActiveRandom().pick(items),
+  shuffle: (items) => getActiveRandom().shuffle(items),
+  weighted: (entries) => getActiveRandom().weighted(entries),
+  reset: () => getActiveRandom().reset(),
+};
+
+/**
+ * Seed the global random number generator used by {@link random}.
+ *
+ * @param seed Any integer. When not passed, a random seed is used.
+ * @returns The seed that was used.
+ *
+ * @example
+ * ```ts
+ * setSeed(123);
+ * userFactory(); // Always the same object for seed 123
+ * ```
+ */
+export function setSeed(seed?: number): number {
+  const rng = createRandom(seed);
+  if (!setContextValue(GLOBAL_RANDOM_KEY, rng)) globalRandom = rng;
+  return rng.seed;
+}
+
+/**
+ * Every generator created for a factory with its own `seed`.
+ */
+const factoryRandoms = new Set<Random>();
+
+/**
+ * Create the generator of a factory with its own `seed`, so it can be reset
+ * with {@link resetFactoryRandoms}.
+ */
+export function createFactoryRandom(seed: number): Random {
+  const rng = createRandom(seed);
+  factoryRandoms.add(rng);
+  return rng;
+}
+
+/**
+ * Start every generator created by {@link createFactoryRandom} over from its
+ * seed. Inside a factory context, the context's copies are reset instead.
+ */
+export function resetFactoryRandoms(): void {
+  for (const rng of factoryRandoms) withRandom(rng, () => random.reset());
+}
+
+/**
+ * In the active factory context, derive the generators of factories with
+ * their own `seed` from another seed, so they generate different values for
+ * each property test run.
+ */
+export function replaceFactorySeeds(seed: number): void {
+  setContextValue(FACTORY_SEED_KEY, seed);
+}
+
+/**
+ * Run a function while {@link random} uses a specific generator.
+ */
+export function withRandom<T>(rng: Random | undefined, fn: () => T): T {
+  if (rng == null) return fn();
+
+  activeRandoms.push(rng);
+  try {
+    return fn();
+  } finally {
+    activeRandoms.pop();
+  }
+}
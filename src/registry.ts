@@ -0,0 +1,126 @@
+import type { FactoryFn } from "./factories";
+import { FACTORY_DEFINITION, type FactoryDefinition } from "./utils";
+
+/**
+ * Factories registered with {@link defineFactories}, looked up by name.
+ */
+export type FactoryRegistry<
+  TFactories extends Record<string, FactoryFn<any, any, any, any, any>>,
+> = {
+  /**
+   * Returns a registered factory. Include a trait name after a colon to get
+   * the trait's factory.
+   *
+   * @example
+   * ```ts
+   * factories.get("user").many(3);
+   * factories.get("user:admin")();
+   * ```
+   */
+  get<TName extends FactoryName<TFactories>>(
+    name: TName,
+  ): FactoryByName<TFactories, TName>;
+
+  /**
+   * Generate an object with a registered factory. Like calling the factory,
+   * only the generated object is returned, not its associations.
+   *
+   * @example
+   * ```ts
+   * factories.build("user", { username: "override" });
+   * factories.build("user:admin");
+   * ```
+   */
+  build<TName extends FactoryName<TFactories>>(
+    name: TName,
+    overrides?: Parameters<FactoryByName<TFactories, TName>>[0],
+  ): ReturnType<FactoryByName<TFactories, TName>>;
+
+  /**
+   * Reset the sequences used by every registered factory, and the random
+   * number generators of factories with a `seed`.
+   */
+  reset(): void;
+};
+
+/**
+ * Names accepted by {@link FactoryRegistry#get}: each factory's name, and each
+ * of its traits as `"factory:trait"`.
+ */
+export type FactoryName<TFactories extends Record<string, any>> = {
+  [name in keyof TFactories & string]:
+    | name
+    | `${name}:${TraitName<TFactories[name]>}`;
+}[keyof TFactories & string];
+
+type TraitName<TFactory> = TFactory extends {
+  traits(...names: Array<infer TTraits>): any;
+}
+  ? TTraits & string
+  : never;
+
+/**
+ * The type of the factory returned for a {@link FactoryName}.
+ */
+export type FactoryByName<
+  TFactories extends Record<string, any>,
+  TName extends string,
+> = TName extends `${infer TFactoryName}:${string}`
+  ? TFactories[TFactoryName]
+  : TFactories[TName];
+
+/**
+ * Register factories under a name, so they can be looked up by name and reset
+ * together. Associations of registered factories can reference other
+ * registered factories by name, so factories don't need to import each other.
+ *
+ * @example
+ * ```ts
+ * const postFactory = createFactory<Post>({ ... }).associate(
+ *   "user",
+ *   (user: User) => ({ userId: user.id }),
+ *   { build: "user" },
+ * );
+ *
+ * export const factories = defineFactories({
+ *   user: userFactory,
+ *   post: postFactory,
+ * });
+ *
+ * factories.build("post"); // { userId: "user-0", ... }
+ *
+ * beforeEach(() => {
+ *   factories.reset();
+ * });
+ * ```
+ */
+export function defineFactories<
+  TFactories extends Record<string, FactoryFn<any, any, any, any, any>>,
+>(factories: TFactories): FactoryRegistry<TFactories> {
+  const registered: Record<string, any> = {};
+
+  const registry: FactoryRegistry<any> = {
+    get: (name: string) => {
+      const [factoryName, ...traits] = name.split(":");
+      const factory = registered[factoryName!];
+      if (factory == null) throw Error(`Unknown factory "${factoryName}"`);
+
+      return traits.length > 0 ? factory.traits(...traits) : factory;
+    },
+    build: (name: string, overrides?: any) => registry.get(name)(overrides),
+    reset: () => {
+      for (const factory of Object.values(registered))
+        getDefinition(factory).reset();
+    },
+  };
+
+  for (const [name, factory] of Object.entries(factories)) {
+    registered[name] = getDefinition(factory).register(registry, name);
+  }
+
+  return registry;
+}
+
+function getDefinition(factory: unknown): FactoryDefinition {
+  return (factory as any)[FACTORY_DEFINITION];
+}
@@ -0,0 +1,49 @@
+import { setFactoryClock, type ClockTime } from "./clock";
+import { clearFactoryContext, getForkedContexts } from "./context";
+import { random, resetFactoryRandoms, setSeed } from "./random";
+import { resetSequences } from "./sequences";
+
+/**
+ * Options for {@link resetFactoryState}.
+ */
+export type ResetFactoryStateOptions = {
+  /**
+   * Seed the global random number generator with a new seed. Otherwise, it
+   * starts over from its current seed.
+   */
+  seed?: number;
+
+  /**
+   * Pin the global clock to a specific time. Otherwise, the clock is left
+   * unchanged.
+   */
+  now?: ClockTime;
+};
+
+/**
+ * Make generated objects deterministic again in a single call. Resets every
+ * sequence and `unique` function, starts the global random number generator
+ * and the generators of factories with their own `seed` over from their
+ * seeds, and optionally pins the global clock. Forked factories
+ * start over from the options passed to `fork`.
+ *
+ * @example
+ * ```ts
+ * beforeEach(() => {
+ *   resetFactoryState({ seed: 123, now: "2024-01-01T00:00:00.000Z" });
+ * });
+ * ```
+ */
+export function resetFactoryState(
+  options: ResetFactoryStateOptions = {},
+): void {
+  resetSequences();
+  // Forked factories start over from their own options
+  for (const context of getForkedContexts()) clearFactoryContext(context);
+
+  if (options.seed == null) random.reset();
+  else setSeed(options.seed);
+  resetFactoryRandoms();
+
+  if (options.now != null) setFactoryClock(options.now);
+}
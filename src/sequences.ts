@@ -1,19 +1,91 @@
+import {
+  getContextValue,
+  getForkedContexts,
+  runInFactoryContext,
+} from "./context";
+import type { FactoryFn } from "./factories";
+import { isUnique, resetUniques, type Unique } from "./unique";
+import {
+  FACTORY_DEFINITION,
+  isMergeable,
+  type FactoryDefinition,
+} from "./utils";
+
 /**
  * A simple function that returns a value based on how many times the function
  * has been called.
  */
-export type Sequence<T> = () => T;
+export type Sequence<T> = {
+  (): T;
+
+  /**
+   * The index that will be used to generate the next value.
+   */
+  readonly current: number;
+
+  /**
+   * Return the next value without advancing the sequence.
+   */
+  peek(): T;
+
+  /**
+   * Move the sequence back to the beginning, so the next value is generated
+   * with `i = 0`.
+   */
+  reset(): void;
+
+  /**
+   * Move the sequence to a specific index, so the next value is generated
+   * with `i = index`.
+   */
+  set(index: number): void;
+};
 
 /**
  * Defines what sequence values look like.
  */
 export type SequenceDefinition<T> = (i: number) => T;
 
+/**
+ * Options for {@link createSequence}.
+ */
+export type SequenceOptions = {
+  /**
+   * The first number passed into the sequence definition. Defaults to 0.
+   */
+  start?: number;
+
+  /**
+   * How much the number passed into the sequence definition increases each
+   * time. Defaults to 1.
+   */
+  step?: number;
+};
+
+/**
+ * Options for sequences of prefixed strings.
+ */
+export type StringSequenceOptions = SequenceOptions & {
+  /**
+   * Pad the number with leading zeros to this length.
+   *
+   * @example
+   * ```ts
+   * const seq = createSequence("user-", { pad: 4 });
+   * seq(); // "user-0000"
+   * seq(); // "user-0001"
+   * ```
+   */
+  pad?: number;
+};
+
 /**
  * Shorthand for creating a sequence of incrementing integers staring at 0.
  *
  * Same as `createSequence((i) => i)`.
  *
+ * @param options Change the first integer and how much it increases by.
+ *
  * @example
  * ```ts
  * const seq = createSequence();
@@ -21,15 +93,21 @@ export type SequenceDefinition<T> = (i: number) => T;
  * seq(); // 1
  * seq(); // 2
  * // ...
+ *
+ * const evens = createSequence({ start: 10, step: 2 });
+ * evens(); // 10
+ * evens(); // 12
  * ```
  */
-export function createSequence(): Sequence<number>;
+export function createSequence(options?: SequenceOptions): Sequence<number>;
 /**
  * Shorthand for creating a sequence of incrementing strings staring at 0.
  *
  * Same as `createSequence((i) => `${prefix}${i})`.
  *
  * @param prefix The string to put in front of the incrementing integer.
+ * @param options Change the first integer, how much it increases by, and how
+ *                many digits it's padded to.
  *
  * @example
  * ```ts
@@ -40,12 +118,16 @@ export function createSequence(): Sequence<number>;
  * // ...
  * ```
  */
-export function createSequence(prefix: string): Sequence<string>;
+export function createSequence(
+  prefix: string,
+  options?: StringSequenceOptions,
+): Sequence<string>;
 /**
  * Use a custom function to generate the sequence values.
  *
  * @param fn Callback called each time the sequence needs to generate a value.
  *           The first argument, `i`, starts at 0.
+ * @param options Change the first value of `i` and how much it increases by.
  *
  * @example
  * ```ts
@@ -56,14 +138,237 @@ export function createSequence(prefix: string): Sequence<string>;
  * // ...
  * ```
  */
-export function createSequence<T>(fn: SequenceDefinition<T>): Sequence<T>;
+export function createSequence<T>(
+  fn: SequenceDefinition<T>,
+  options?: SequenceOptions,
+): Sequence<T>;
 export function createSequence(
-  arg?: string | SequenceDefinition<any>,
+  arg?: string | SequenceDefinition<any> | SequenceOptions,
+  options: StringSequenceOptions = {},
 ): Sequence<any> {
-  if (!arg) return createSequence((i) => i);
-  if (typeof arg === "string") return createSequence((i) => `${arg}${i}`);
+  if (arg == null || typeof arg === "object")
+    return createSequence((i) => i, arg);
+  if (typeof arg === "string") {
+    const { pad = 0, ...rest } = options;
+    return createSequence((i) => `${arg}${String(i).padStart(pad, "0")}`, rest);
+  }
+
+  const { start = 0, step = 1 } = options;
+  const valueAt = (index: number) => arg(start + index * step);
+  const globalState = { i: 0 };
+  const getState = () =>
+    getContextValue(sequence, () => ({ i: 0 })) ?? globalState;
+
+  const sequence = Object.defineProperties(() => valueAt(getState().i++), {
+    current: { get: () => getState().i },
+    peek: { value: () => valueAt(getState().i) },
+    reset: { value: () => void (getState().i = 0) },
+    set: { value: (index: number) => void (getState().i = index) },
+  }) as Sequence<any>;
+
+  sequences.add(sequence);
+
+  return sequence;
+}
+
+/**
+ * Create a sequence that loops over a list of values.
+ *
+ * @example
+ * ```ts
+ * const roles = cycle(["admin", "user"]);
+ * roles(); // "admin"
+ * roles(); // "user"
+ * roles(); // "admin"
+ * ```
+ */
+export function cycle<T>(items: readonly T[]): Sequence<T> {
+  if (items.length === 0) throw Error("Cannot cycle over an empty array");
+
+  return createSequence((i) => items[i % items.length]!);
+}
+
+/**
+ * Create a sequence of UUID-shaped strings. Values are deterministic, so
+ * they're the same every time tests are ran, while still passing UUID
+ * validation.
+ *
+ * @example
+ * ```ts
+ * const ids = createUuidSequence();
+ * ids(); // "00000000-0000-4000-8000-000000000000"
+ * ids(); // "00000000-0000-4000-8000-000000000001"
+ * ```
+ */
+export function createUuidSequence(
+  options?: SequenceOptions,
+): Sequence<string> {
+  return createSequence(
+    (i) => `00000000-0000-4000-8000-${i.toString(16).padStart(12, "0")}`,
+    options,
+  );
+}
+
+/**
+ * Options for {@link createDateSequence}.
+ */
+export type DateSequenceOptions = {
+  /**
+   * The first date. Defaults to `2000-01-01T00:00:00.000Z`.
+   */
+  start?: Date | string | number;
+
+  /**
+   * Milliseconds between each date. Defaults to one day.
+   */
+  interval?: number;
+};
+
+const DEFAULT_START_DATE = "2000-01-01T00:00:00.000Z";
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Create a sequence of dates, each a fixed interval after the previous date.
+ * Each call returns a new `Date` instance.
+ *
+ * @example
+ * ```ts
+ * const createdAt = createDateSequence({ interval: 60 * 60 * 1000 });
+ * createdAt(); // 2000-01-01T00:00:00.000Z
+ * createdAt(); // 2000-01-01T01:00:00.000Z
+ * ```
+ */
+export function createDateSequence(
+  options: DateSequenceOptions = {},
+): Sequence<Date> {
+  const { start = DEFAULT_START_DATE, interval = ONE_DAY } = options;
+  const startTime = new Date(start).getTime();
+
+  return createSequence((i) => new Date(startTime + i * interval));
+}
+
+/**
+ * Create a sequence that transforms the values of another sequence. Calling,
+ * resetting, or moving the returned sequence does the same to the original.
+ *
+ * @example
+ * ```ts
+ * const ids = createSequence();
+ * const emails = mapSequence(ids, (id) => `user-${id}@example.com`);
+ * emails(); // "user-0@example.com"
+ * ```
+ */
+export function mapSequence<T, U>(
+  sequence: Sequence<T>,
+  fn: (value: T) => U,
+): Sequence<U> {
+  return combineSequences([sequence], ([value]) => fn(value));
+}
+
+/**
+ * Create a sequence that returns the values of multiple sequences together.
+ * Calling, resetting, or moving the returned sequence does the same to each
+ * of the original sequences.
+ *
+ * @example
+ * ```ts
+ * const pairs = zipSequences(createSequence(), cycle(["a", "b"]));
+ * pairs(); // [0, "a"]
+ * pairs(); // [1, "b"]
+ * pairs(); // [2, "a"]
+ * ```
+ */
+export function zipSequences<T extends unknown[]>(
+  ...sequences: { [i in keyof T]: Sequence<T[i]> }
+): Sequence<T> {
+  return combineSequences(sequences, (values) => values as T);
+}
+
+function combineSequences<T>(
+  sources: Sequence<any>[],
+  combine: (values: any[]) => T,
+): Sequence<T> {
+  const globalState = { i: 0 };
+  const getState = () =>
+    getContextValue(sequence, () => ({ i: 0 })) ?? globalState;
+
+  const sequence = Object.defineProperties(
+    () => {
+      getState().i++;
+      return combine(sources.map((source) => source()));
+    },
+    {
+      current: { get: () => getState().i },
+      peek: { value: () => combine(sources.map((source) => source.peek())) },
+      reset: {
+        value: () => {
+          getState().i = 0;
+          for (const source of sources) source.reset();
+        },
+      },
+      set: {
+        value: (index: number) => {
+          getState().i = index;
+          for (const source of sources) source.set(index);
+        },
+      },
+    },
+  ) as Sequence<T>;
+
+  sequences.add(sequence);
+
+  return sequence;
+}
+
+/**
+ * Every sequence created by {@link createSequence}.
+ */
+const sequences = new Set<Sequence<unknown>>();
+
+/**
+ * Reset sequences back to the beginning, and forget the values returned by
+ * `unique` functions. Useful for making generated values deterministic between
+ * tests.
+ *
+ * @param factory When passed, only the sequences and unique functions used by
+ *                this factory's default values and traits are reset.
+ *                Otherwise, every sequence and unique function is reset.
+ *
+ * @example
+ * ```ts
+ * beforeEach(() => {
+ *   resetSequences();
+ * });
+ * ```
+ */
+export function resetSequences(factory?: FactoryFn<any, any, any, any>): void {
+  if (factory == null) {
+    // Forked factories keep their sequences in their own context
+    for (const context of [undefined, ...getForkedContexts()]) {
+      runInFactoryContext(context, () => {
+        for (const sequence of sequences) sequence.reset();
+        resetUniques();
+      });
+    }
+    return;
+  }
+
+  const definition: FactoryDefinition = (factory as any)[FACTORY_DEFINITION];
+  runInFactoryContext(definition.context, () => {
+    for (const target of findSequences(definition)) target.reset();
+  });
+}
 
-  let i = 0;
+function findSequences(
+  value: unknown,
+  found = new Set<Sequence<unknown> | Unique<unknown, any[]>>(),
+): Set<Sequence<unknown> | Unique<unknown, any[]>> {
+  if (typeof value === "function") {
+    if (sequences.has(value as Sequence<unknown>) || isUnique(value))
+      found.add(value as Sequence<unknown>);
+  } else if (Array.isArray(value) || isMergeable(value)) {
+    for (const item of Object.values(value)) findSequences(item, found);
+  }
 
-  return () => arg(i++);
+  return found;
 }
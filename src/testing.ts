@@ -0,0 +1,149 @@
+import type { ClockTime } from "./clock";
+import { randomSeed } from "./random";
+import { resetFactoryState } from "./reset";
+
+/**
+ * Options for {@link startFactoryTest} and the test runner integrations.
+ */
+export type FactoryTestOptions = {
+  /**
+   * Seed used by every test. When not passed, the `ZERO_FACTORY_SEED`
+   * environment variable is used, or a new random seed for each test.
+   */
+  seed?: number;
+
+  /**
+   * Pin the global clock to a specific time before each test.
+   */
+  now?: ClockTime;
+};
+
+/**
+ * A call made to a factory during a test, shown in the report of failed tests.
+ */
+export type FactoryCall = {
+  /**
+   * Name the factory was registered under with `defineFactories`.
+   */
+  factory: string | undefined;
+  traits: string[];
+  method: string;
+  args: unknown[];
+};
+
+type FactoryTest = {
+  seed: number;
+  calls: FactoryCall[];
+};
+
+/**
+ * Environment variable used to replay a failed test with the same seed.
+ */
+const SEED_ENV = "ZERO_FACTORY_SEED";
+
+/**
+ * How many calls are shown in the report of a failed test. Earlier calls are
+ * left out.
+ */
+const MAX_REPORTED_CALLS = 50;
+
+let activeTest: FactoryTest | undefined;
+
+/**
+ * How many factory calls are in progress, so only the calls made by the test
+ * are recorded, not the calls factories make to build associations.
+ */
+let callDepth = 0;
+
+/**
+ * Reset factory state at the start of a test: every sequence and `unique`
+ * function is reset, the global random number generator gets a new seed, and
+ * factory calls are recorded until the next test starts.
+ *
+ * Used by the `@aklinker1/zero-factory/bun` and `@aklinker1/zero-factory/vitest`
+ * integrations. Call it from a `beforeEach` hook to integrate with other test
+ * runners, and print {@link getFactoryTestReport} when a test fails.
+ *
+ * @returns The seed used by the test.
+ */
+export function startFactoryTest(options: FactoryTestOptions = {}): number {
+  const seed = options.seed ?? getEnvSeed() ?? randomSeed();
+  resetFactoryState({ seed, now: options.now });
+  activeTest = { seed, calls: [] };
+  return seed;
+}
+
+/**
+ * Returns the seed and factory calls of the current test, to print when it
+ * fails. Returns `undefined` when {@link startFactoryTest} hasn't been called.
+ *
+ * @example
+ * ```txt
+ * Factory seed: 123 (replay with ZERO_FACTORY_SEED=123)
+ * Factory calls:
+ *   user:admin.create({"username":"test"})
+ *   post.many(3)
+ * ```
+ */
+export function getFactoryTestReport(): string | undefined {
+  if (activeTest == null) return;
+
+  const { seed, calls } = activeTest;
+  const lines = [
+    `Factory seed: ${seed} (replay with ${SEED_ENV}=${seed})`,
+    "Factory calls:",
+  ];
+  if (calls.length > MAX_REPORTED_CALLS)
+    lines.push(`  ...${calls.length - MAX_REPORTED_CALLS} earlier calls`);
+  lines.push(
+    ...calls.slice(-MAX_REPORTED_CALLS).map((call) => `  ${formatCall(call)}`),
+  );
+  if (calls.length === 0) lines.push("  (none)");
+
+  return lines.join("\n");
+}
+
+/**
+ * Record a factory call while a test is active, then run it.
+ */
+export function recordFactoryCall<T>(call: FactoryCall, fn: () => T): T {
+  if (activeTest == null) return fn();
+
+  if (callDepth === 0) activeTest.calls.push(call);
+  callDepth++;
+  try {
+    return fn();
+  } finally {
+    callDepth--;
+  }
+}
+
+function getEnvSeed(): number | undefined {
+  const value = (globalThis as any).process?.env?.[SEED_ENV];
+  if (!value) return;
+
+  const seed = Number(value);
+  return Number.isInteger(seed) ? seed : undefined;
+}
+
+function formatCall({
+  factory = "factory",
+  traits,
+  method,
+  args,
+}: FactoryCall) {
+  const name = [factory, ...traits].join(":");
+  const params = args.slice();
+  while (params.length > 0 && params.at(-1) === undefined) params.pop();
+
+  return `${name}${method ? `.${method}` : ""}(${params.map(formatArg).join(", ")})`;
+}
+
+function formatArg(value: unknown): string {
+  if (typeof value === "function") return "[Function]";
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,151 @@
+import { getContextValue } from "./context";
+import { isMergeable } from "./utils";
+
+/**
+ * A function that wraps another function, only returning values it hasn't
+ * returned since it was last reset.
+ */
+export type Unique<T, TArgs extends any[] = []> = {
+  (...args: TArgs): T;
+
+  /**
+   * Forget the values returned so far, so they can be returned again.
+   */
+  reset(): void;
+};
+
+/**
+ * Options for {@link unique}.
+ */
+export type UniqueOptions<T> = {
+  /**
+   * How many times to call the function before giving up and throwing an
+   * error. Defaults to 100.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Returns the value used to compare generated values. By default, values
+   * are compared using `SameValueZero`, like a `Set`. Use this to compare
+   * objects, like dates, by their contents.
+   *
+   * @example
+   * ```ts
+   * unique(() => randPastDate(), { key: (date) => date.getTime() });
+   * ```
+   */
+  key?: (value: T) => unknown;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 100;
+
+/**
+ * Every unique function created by {@link unique}.
+ */
+const uniques = new Map<Unique<any, any[]>, (value: unknown) => unknown>();
+
+/**
+ * Wrap a function so it never returns the same value twice, until it's reset.
+ * The function is called again each time it returns a value that was already
+ * returned. Useful for random values that need to be unique, like emails.
+ *
+ * Unique values are reset along with sequences, by `resetSequences`.
+ *
+ * @param fn The function generating values. Any arguments, like the
+ *           in-progress object for function defaults, are passed through.
+ * @param options Configure how many attempts are made and how values are
+ *                compared.
+ *
+ * @example
+ * ```ts
+ * const userFactory = createFactory<User>({
+ *   email: unique(() => randEmail()),
+ * });
+ * ```
+ */
+export function unique<T, TArgs extends any[] = []>(
+  fn: (...args: TArgs) => T,
+  options: UniqueOptions<T> = {},
+): Unique<T, TArgs> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, key = (value: T) => value } =
+    options;
+  const globalSeen = new Set<unknown>();
+  const getSeen = () =>
+    getContextValue(uniqueFn, () => new Set<unknown>()) ?? globalSeen;
+
+  const uniqueFn = Object.defineProperties(
+    (...args: TArgs): T => {
+      const seen = getSeen();
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const value = fn(...args);
+        const valueKey = key(value);
+        if (!seen.has(valueKey)) {
+          seen.add(valueKey);
+          return value;
+        }
+      }
+
+      throw Error(
+        `Failed to generate a unique value after ${maxAttempts} attempts. Reset unique values with \`resetSequences()\` or increase \`maxAttempts\`.`,
+      );
+    },
+    {
+      reset: { value: () => getSeen().clear() },
+    },
+  ) as Unique<T, TArgs>;
+
+  uniques.set(uniqueFn, key as (value: unknown) => unknown);
+
+  return uniqueFn;
+}
+
+/**
+ * Returns `true` for functions created by {@link unique}.
+ */
+export function isUnique(value: unknown): value is Unique<unknown, any[]> {
+  return uniques.has(value as Unique<unknown, any[]>);
+}
+
+/**
+ * Reset every function created by {@link unique}.
+ */
+export function resetUniques(): void {
+  for (const uniqueFn of uniques.keys()) uniqueFn.reset();
+}
+
+/**
+ * Throws when objects generated together have the same value for a property
+ * whose default value is a {@link unique} function. This catches duplicates
+ * introduced by overrides, which replace the unique function.
+ */
+export function assertUniqueValues(
+  defaults: Record<string, any>,
+  objects: unknown[],
+): void {
+  for (const [path, key] of findUniquePaths(defaults)) {
+    const seen = new Set<unknown>();
+
+    for (const object of objects) {
+      const value = path.reduce<any>((parent, name) => parent?.[name], object);
+      if (value === undefined) continue;
+
+      const valueKey = key(value);
+      if (seen.has(valueKey))
+        throw Error(
+          `Expected "${path.join(".")}" to be unique, but ${JSON.stringify(value)} was generated more than once.`,
+        );
+      seen.add(valueKey);
+    }
+  }
+}
+
+function findUniquePaths(
+  defaults: Record<string, any>,
+  path: string[] = [],
+): Array<[path: string[], key: (value: unknown) => unknown]> {
+  return Object.entries(defaults).flatMap(([name, value]) => {
+    if (isUnique(value)) return [[[...path, name], uniques.get(value)!]];
+    if (isMergeable(value)) return findUniquePaths(value, [...path, name]);
+    return [];
+  });
+}
@@ -1,26 +1,149 @@
+import type { FactoryContext } from "./context";
+import type { Random } from "./random";
+import { getValueType, isPlainObject } from "./values";
+
+/**
+ * Key used to store a factory's definition on the factory function, so other
+ * APIs can inspect its default values.
+ */
+export const FACTORY_DEFINITION = Symbol("factory-definition");
+
+/**
+ * The value stored under {@link FACTORY_DEFINITION}.
+ */
+export type FactoryDefinition = {
+  defaults: Record<string, any>;
+  transient: Record<string, any>;
+  traits: Record<string, { defaults: unknown }>;
+  random: Random | undefined;
+  /**
+   * Context of a forked factory.
+   */
+  context: FactoryContext | undefined;
+
+  /**
+   * Reset the sequences, unique functions, and random number generator used
+   * by the factory. Forked factories are reset in their own context.
+   */
+  reset(): void;
+
+  /**
+   * Returns a copy of the factory registered under a name, that looks up
+   * factories referenced by name in the registry.
+   */
+  register(registry: FactoryLookup, name: string): any;
+};
+
+/**
+ * Looks up factories by name, like `"user"` or `"user:admin"`.
+ */
+export type FactoryLookup = {
+  get(name: string): (overrides?: any) => any;
+};
+
+/**
+ * Key used to identify {@link ArrayOverride} objects.
+ */
+export const ARRAY_OVERRIDE = Symbol("array-override");
+
+/**
+ * How an array override is combined with the base array:
+ * - `"replace"`: Use the override's items instead of the base array
+ * - `"append"`: Add the override's items to the end of the base array
+ * - `"prepend"`: Add the override's items to the start of the base array
+ * - `"mergeByIndex"`: Deeply merge each item into the base item at the same index
+ * - `{ mergeByKey }`: Deeply merge each item into the base item with the same value for the key
+ */
+export type ArrayMergeStrategy =
+  | "replace"
+  | "append"
+  | "prepend"
+  | "mergeByIndex"
+  | { mergeByKey: PropertyKey };
+
 /**
- * Deeply make objects partial, but ignoring arrays.
+ * Override for an array property that is merged with the base array instead
+ * of replacing it.
  */
-export type DeepPartial<T> = T extends any[] | Date
-  ? T
-  : T extends Record<string, any>
-    ? { [key in keyof T]?: DeepPartial<T[key]> }
-    : T;
+export type ArrayOverride<T> = ArrayItemsOverride<T> | ArrayMergeOverride<T>;
+
+/**
+ * {@link ArrayOverride} that adds its items as-is, so they must be complete.
+ */
+export type ArrayItemsOverride<T> = {
+  readonly [ARRAY_OVERRIDE]: "replace" | "append" | "prepend";
+  readonly items: ReadonlyArray<T>;
+};
+
+/**
+ * {@link ArrayOverride} that deeply merges its items into the base items, so
+ * they can be partial.
+ */
+export type ArrayMergeOverride<T> = {
+  readonly [ARRAY_OVERRIDE]: "mergeByIndex" | { mergeByKey: PropertyKey };
+  readonly items: ReadonlyArray<DeepPartial<T>>;
+};
+
+/**
+ * Deeply make objects partial, but ignoring arrays, functions, and other
+ * values that aren't merged, like `Map` or class instances. Arrays can be
+ * replaced, or overridden with an {@link ArrayOverride} to merge them with
+ * the base array instead.
+ */
+export type DeepPartial<T> = T extends any[]
+  ? T | ArrayOverride<T[number]>
+  : T extends NonMergeableValue | ((...args: any[]) => any)
+    ? T
+    : T extends Record<string, any>
+      ? { [key in keyof T]?: DeepPartialValue<T[key]> }
+      : T;
+
+type DeepPartialValue<T> = T extends NonMergeableValue
+  ? DeepPartial<T>
+  : HasMethods<T> extends true
+    ? T
+    : DeepPartial<T>;
+
+/**
+ * Returns `true` for object types with methods, like class instances. They
+ * aren't plain objects, so they're replaced instead of merged. Classes
+ * without methods can't be told apart from plain object types.
+ */
+type HasMethods<T> = [
+  {
+    [key in keyof T]-?: T[key] extends (...args: any[]) => any ? key : never;
+  }[keyof T],
+] extends [never]
+  ? false
+  : true;
 
 /**
  * Deep merge objects, not arrays. Only override values with `null`, `undefined` does not override the base value.
+ *
+ * Arrays are replaced, unless the override is an {@link ArrayOverride}.
  */
 export function deepMerge<T>(base: T, overrides: DeepPartial<T>): T {
+  if (isArrayOverride(overrides)) return mergeArray(base, overrides);
+
+  const valueType = getValueType(overrides);
+  if (valueType?.merge && valueType.test(base))
+    return valueType.merge(base, overrides);
+
   if (!isMergeable(overrides)) return (overrides ?? base) as T;
 
+  // Only plain objects are merged, so other objects, like class instances,
+  // are replaced instead of losing their prototype
+  if (base != null && typeof base === "object" && !isMergeable(base))
+    return overrides as T;
+
   return Object.fromEntries(
     Object.keys({ ...base, ...overrides })
       .map((key) => {
-        const baseValue = (base as any)[key];
+        const baseValue = (base as any)?.[key];
         if (!(key in overrides)) return [key, baseValue];
 
         const overrideValue = (overrides as any)[key];
-        if (isMergeable(overrideValue))
+        if (canMerge(overrideValue))
           return [key, deepMerge(baseValue, overrideValue)];
 
         return [key, overrideValue];
@@ -29,19 +152,115 @@ export function deepMerge<T>(base: T, overrides: DeepPartial<T>): T {
   ) as T;
 }
 
-function isMergeable(val: any): val is Record<string, any> {
+export function isArrayOverride(val: any): val is ArrayOverride<any> {
+  return val != null && typeof val === "object" && ARRAY_OVERRIDE in val;
+}
+
+function mergeArray(base: any, override: ArrayOverride<any>): any {
+  // When merging default values, the base array may not be resolved yet
+  if (typeof base === "function")
+    return (...args: any[]) => mergeArray(base(...args), override);
+
+  const baseItems: any[] = Array.isArray(base) ? base : [];
+  const items = override.items;
+  const strategy = override[ARRAY_OVERRIDE];
+
+  switch (strategy) {
+    case "replace":
+      return [...items];
+    case "append":
+      return [...baseItems, ...items];
+    case "prepend":
+      return [...items, ...baseItems];
+    case "mergeByIndex":
+      // Partial items can't be added, since they would be incomplete
+      if (items.length > baseItems.length)
+        throw Error(
+          `Cannot merge ${items.length} items by index into an array of ${baseItems.length} items. Use \`append\` to add items.`,
+        );
+      return baseItems.map((baseItem, i) =>
+        i < items.length ? deepMerge(baseItem, items[i]) : baseItem,
+      );
+    default: {
+      const key = strategy.mergeByKey;
+      const merged = [...baseItems];
+      for (const item of items) {
+        const value = (item as any)?.[key];
+        const index = merged.findIndex((baseItem) => baseItem?.[key] === value);
+        if (index === -1)
+          throw Error(
+            `Cannot merge the item with ${String(key)} ${JSON.stringify(value)}, no base item has the same ${String(key)}. Use \`append\` to add items.`,
+          );
+        merged[index] = deepMerge(merged[index], item);
+      }
+      return merged;
+    }
+  }
+}
+
+/**
+ * Returns `true` for objects whose properties are deeply merged and resolved.
+ * Other values, like arrays, dates, maps, and class instances, are treated as
+ * a single value.
+ */
+export function isMergeable(val: any): val is Record<string, any> {
+  return (
+    // Only plain objects, not arrays or class instances
+    isPlainObject(val) &&
+    // Not an array override
+    !isArrayOverride(val) &&
+    // Not a registered value type
+    getValueType(val) == null
+  );
+}
+
+/**
+ * Returns `true` when an override value is combined with the base value
+ * instead of replacing it.
+ */
+function canMerge(val: any): boolean {
   return (
-    // Not null
-    val != null &&
-    // Is an object
-    typeof val === "object" &&
-    // Not an array
-    !Array.isArray(val) &&
-    // Not a date instance
-    !(val instanceof Date)
+    isMergeable(val) || isArrayOverride(val) || getValueType(val)?.merge != null
   );
 }
 
+/**
+ * Deeply clone arrays, plain objects and registered value types. Other
+ * values, like class instances, are returned as is.
+ */
+export function cloneValue(val: any): any {
+  if (Array.isArray(val)) return val.map(cloneValue);
+  if (isMergeable(val))
+    return Object.fromEntries(
+      Object.entries(val).map(([key, value]) => [key, cloneValue(value)]),
+    );
+
+  const clone = getValueType(val)?.clone;
+  return clone ? clone(val) : val;
+}
+
+/**
+ * Deeply freeze a generated object and the arrays and plain objects in it, so
+ * any attempt to mutate them throws an error in strict mode. Other objects,
+ * like class instances passed as overrides, can be shared with the rest of
+ * the program, so they're left as is.
+ */
+export function deepFreeze<T>(val: T): T {
+  if (val == null || typeof val !== "object") return val;
+
+  Object.freeze(val);
+  for (const value of Object.values(val)) freezeOwnedValue(value);
+  return val;
+}
+
+function freezeOwnedValue(val: unknown): void {
+  if (!(Array.isArray(val) || isPlainObject(val)) || Object.isFrozen(val))
+    return;
+
+  Object.freeze(val);
+  for (const value of Object.values(val)) freezeOwnedValue(value);
+}
+
 /**
  * List of types used by {@link FactoryDefaults} to "stop" the recursion and
  * return `T | (() => T)` for. Runtime checks for this list happen in
@@ -50,8 +269,14 @@ function isMergeable(val: any): val is Record<string, any> {
 export type NonMergeableValue =
   // Don't allow factory functions in arrays
   | any[]
-  // Allow factory functions for this class
+  // Allow factory functions for these classes, see `valueTypes`
   | Date
+  | RegExp
+  | Map<any, any>
+  | Set<any>
+  | URL
+  | ArrayBuffer
+  | ArrayBufferView
   // Primitives
   | string
   | boolean
@@ -64,6 +289,12 @@ export type NonMergeableValue =
  */
 type NonNullableCore<T> = Exclude<T, null | undefined>;
 
+/**
+ * A function default. It is called with the object being generated, so the
+ * value can be derived from other properties, including overrides.
+ */
+export type FactoryDefaultFn<T, TRoot> = (object: TRoot) => T;
+
 /**
  * Maps a value type `T` to its allowed factory default type.
  *
@@ -73,46 +304,168 @@ type NonNullableCore<T> = Exclude<T, null | undefined>;
  *    This preserves `() => string | undefined` instead of splitting it.
  * 2. If the core type is an object, expand it recursively and handle null/undefined
  *    separately to support `{ a: string } | null | undefined` properly.
+ *
+ * `TRoot` is the type of the top-level object, passed into function defaults
+ * at any level.
  */
-type FactoryDefaultValue<T> =
+type FactoryDefaultValue<T, TRoot> =
   NonNullableCore<T> extends NonMergeableValue
-    ? T | (() => T)
-    : NonNullableCore<T> extends Record<string, any>
-      ?
-          | FactoryDefaults<NonNullableCore<T>>
-          | (() => NonNullableCore<T>)
-          | (null extends T ? null | (() => null) : never)
-          | (undefined extends T ? undefined | (() => undefined) : never)
-      : T | (() => T);
-
-export type FactoryDefaults<T extends Record<string, any>> = {
-  [Key in keyof T]: FactoryDefaultValue<T[Key]>;
+    ? T | FactoryDefaultFn<T, TRoot>
+    : HasMethods<NonNullableCore<T>> extends true
+      ? T | FactoryDefaultFn<T, TRoot>
+      : NonNullableCore<T> extends Record<string, any>
+        ?
+            | FactoryDefaults<NonNullableCore<T>, TRoot>
+            | FactoryDefaultFn<NonNullableCore<T>, TRoot>
+            | (null extends T ? null | FactoryDefaultFn<null, TRoot> : never)
+            | (undefined extends T
+                ? undefined | FactoryDefaultFn<undefined, TRoot>
+                : never)
+        : T | FactoryDefaultFn<T, TRoot>;
+
+export type FactoryDefaults<T extends Record<string, any>, TRoot = T> = {
+  [Key in keyof T]: FactoryDefaultValue<T[Key], TRoot>;
 };
 
+/**
+ * Resolve default values into an object, applying overrides along the way.
+ *
+ * Function defaults are called with the in-progress object. Its properties are
+ * resolved lazily, when first accessed, so properties are resolved in
+ * dependency order regardless of the order they're defined in. Nested objects
+ * are resolved the same way, one property at a time, so function defaults can
+ * read their siblings. Overridden properties use the override instead of
+ * calling their function default.
+ */
 export function resolveDefaults<T extends Record<string, any>>(
-  val: FactoryDefaults<T>,
+  defaults: FactoryDefaults<T>,
+  overrides?: DeepPartial<T>,
 ): T {
-  const result: T = {} as T;
-
-  for (const key in val) {
-    if (Object.prototype.hasOwnProperty.call(val, key)) {
-      const defaultValue = val[key];
-
-      if (typeof defaultValue === "function") {
-        // If the default value is a function, call it to get the actual value.
-        (result as any)[key] = (defaultValue as () => any)();
-      } else if (isMergeable(defaultValue)) {
-        // If the default value is a mergeable object (not an array, Date, etc.),
-        // recursively resolve its nested defaults.
-        (result as any)[key] = resolveDefaults(
-          defaultValue as FactoryDefaults<Record<string, any>>,
+  // Resolved values and the properties being resolved, by path
+  const resolved = new Map<string, any>();
+  const resolving: string[] = [];
+
+  const createNode = (
+    defaults: Record<string, any>,
+    overrides: Record<string, any> | undefined,
+    path: string[],
+  ): ResolverNode => {
+    const keys = new Set(Object.keys({ ...defaults, ...overrides }));
+    const children = new Map<string, ResolverNode | undefined>();
+
+    // Nested objects get their own node, unless an override replaces them
+    const getChild = (key: string): ResolverNode | undefined => {
+      if (!children.has(key)) {
+        const defaultValue = defaults[key];
+        const hasOverride = overrides != null && key in overrides;
+        const overrideValue = hasOverride ? overrides[key] : undefined;
+        children.set(
+          key,
+          typeof defaultValue !== "function" &&
+            isMergeable(defaultValue) &&
+            (!hasOverride || isMergeable(overrideValue))
+            ? createNode(defaultValue, overrideValue, [...path, key])
+            : undefined,
         );
-      } else {
-        // Otherwise (primitive, null, array, Date, RegExp, Promise), use the value directly.
-        (result as any)[key] = defaultValue;
       }
-    }
-  }
+      return children.get(key);
+    };
+
+    const resolveKey = (key: string): any => {
+      const child = getChild(key);
+      if (child) return child.resolve();
+
+      const id = [...path, key].join(".");
+      if (resolved.has(id)) return resolved.get(id);
+
+      if (resolving.includes(id)) {
+        const cycle = [...resolving.slice(resolving.indexOf(id)), id];
+        throw Error(
+          `Circular dependency detected between factory defaults: ${cycle.join(" -> ")}`,
+        );
+      }
+
+      resolving.push(id);
+      try {
+        const value = resolveProperty(defaults[key], overrides, key, [
+          ...path,
+          key,
+        ]);
+        resolved.set(id, value);
+        return value;
+      } finally {
+        resolving.pop();
+      }
+    };
+
+    // Nested objects are read through their own in-progress object
+    const getKey = (key: string): any =>
+      getChild(key)?.object ?? resolveKey(key);
 
-  return result;
+    let result: Record<string, any> | undefined;
+    return {
+      object: new Proxy({} as Record<string, any>, {
+        get: (_, key) =>
+          typeof key === "string" && keys.has(key) ? getKey(key) : undefined,
+        has: (_, key) => typeof key === "string" && keys.has(key),
+        ownKeys: () => [...keys],
+        getOwnPropertyDescriptor: (_, key) =>
+          typeof key === "string" && keys.has(key)
+            ? { value: getKey(key), enumerable: true, configurable: true }
+            : undefined,
+      }),
+      resolve: () =>
+        (result ??= Object.fromEntries(
+          [...keys].map((key) => [key, resolveKey(key)]),
+        )),
+    };
+  };
+
+  const resolveProperty = (
+    defaultValue: any,
+    overrides: Record<string, any> | undefined,
+    key: string,
+    path: string[],
+  ): any => {
+    if (overrides == null || !(key in overrides))
+      return resolveDefaultValue(defaultValue, path);
+
+    const overrideValue = overrides[key];
+
+    // Don't resolve the default value when it is replaced by the override
+    if (!canMerge(overrideValue)) return cloneValue(overrideValue);
+
+    return cloneValue(
+      deepMerge(resolveDefaultValue(defaultValue, path), overrideValue),
+    );
+  };
+
+  const resolveDefaultValue = (defaultValue: any, path: string[]): any => {
+    // If the default value is a function, call it to get the actual value.
+    if (typeof defaultValue === "function") return defaultValue(root.object);
+
+    // If the default value is a mergeable object (not an array, Date, etc.),
+    // recursively resolve its nested defaults.
+    if (isMergeable(defaultValue))
+      return createNode(defaultValue, undefined, path).resolve();
+
+    // Otherwise (primitive, null, array, Date, Map, class instance, etc), use
+    // a copy of the value so generated objects don't share the same instance.
+    return cloneValue(defaultValue);
+  };
+
+  const root = createNode(defaults, overrides, []);
+  return root.resolve() as T;
 }
+
+/**
+ * Resolves the properties of an object, or a nested object, in
+ * {@link resolveDefaults}.
+ */
+type ResolverNode = {
+  /**
+   * The in-progress object passed into function defaults.
+   */
+  object: Record<string, any>;
+  resolve(): Record<string, any>;
+};
@@ -0,0 +1,115 @@
+import { cloneValue } from "./utils";
+
+/**
+ * Describes how factories should treat values of a specific type when
+ * resolving default values and merging overrides.
+ */
+export type ValueTypeOptions<T> = {
+  /**
+   * Return a copy of the value. Called when a static default value of this
+   * type is used, so each generated object gets its own copy. When not
+   * provided, the same value is shared between all generated objects.
+   */
+  clone?: (value: T) => T;
+
+  /**
+   * Combine a base value with an override of the same type. When not
+   * provided, overrides replace the base value.
+   */
+  merge?: (base: T, override: T) => T;
+};
+
+type ValueType = ValueTypeOptions<any> & {
+  test: (value: unknown) => boolean;
+};
+
+const valueTypes: ValueType[] = [
+  {
+    test: (value) => value instanceof Date,
+    clone: (value: Date) => new Date(value.getTime()),
+  },
+  {
+    test: (value) => value instanceof RegExp,
+    clone: (value: RegExp) => new RegExp(value.source, value.flags),
+  },
+  {
+    test: (value) => value instanceof Map,
+    clone: (value: Map<unknown, unknown>) =>
+      new Map(Array.from(value, ([key, item]) => [key, cloneValue(item)])),
+  },
+  {
+    test: (value) => value instanceof Set,
+    clone: (value: Set<unknown>) => new Set(Array.from(value, cloneValue)),
+  },
+  {
+    test: (value) => typeof URL !== "undefined" && value instanceof URL,
+    clone: (value: URL) => new URL(value.href),
+  },
+  {
+    test: (value) => value instanceof ArrayBuffer,
+    clone: (value: ArrayBuffer) => value.slice(0),
+  },
+  {
+    test: (value) => ArrayBuffer.isView(value) && !(value instanceof DataView),
+    clone: (value: Uint8Array) => value.slice(),
+  },
+];
+
+/**
+ * Register a custom type that factories treat as a single value instead of
+ * an object to deeply merge. Optionally, provide functions to clone and merge
+ * values of the type.
+ *
+ * Class instances are never deeply merged, so registering a class is only
+ * required to clone or merge its instances. Use `{ test }` to treat plain
+ * objects matching a specific shape as a single value.
+ *
+ * @param type A class, or an object with a `test` function that returns
+ *             `true` for values of the type.
+ * @param options How to clone and merge values of the type.
+ *
+ * @example
+ * ```ts
+ * registerValueType(Decimal, {
+ *   clone: (value) => new Decimal(value),
+ * });
+ *
+ * registerValueType({ test: isObjectId });
+ * ```
+ */
+export function registerValueType<T>(
+  type:
+    | (abstract new (...args: any[]) => T)
+    | { test: (value: unknown) => value is T },
+  options: ValueTypeOptions<T> = {},
+): void {
+  // Check custom types first so they can change how built-in types behave
+  valueTypes.unshift({
+    ...options,
+    test:
+      typeof type === "function"
+        ? (value) => value instanceof type
+        : (value) => type.test(value),
+  });
+}
+
+/**
+ * Returns the registered type the value belongs to, if any.
+ */
+export function getValueType(value: unknown): ValueType | undefined {
+  if (value == null || typeof value !== "object") return;
+
+  return valueTypes.find((type) => type.test(value));
+}
+
+/**
+ * Returns `true` for objects created with `{}`, `Object.create(null)`, or
+ * similar, which are deeply merged. Other objects, like class instances, are
+ * treated as a single value.
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  if (value == null || typeof value !== "object") return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,34 @@
+import { beforeEach } from "vitest";
+import {
+  getFactoryTestReport,
+  startFactoryTest,
+  type FactoryTestOptions,
+} from "./testing";
+
+export type { FactoryTestOptions } from "./testing";
+
+/**
+ * Reset sequences and `unique` functions and assign a new seed before each
+ * test. When a test fails, its seed and the factory calls it made are
+ * printed, so it can be replayed with the `ZERO_FACTORY_SEED` environment
+ * variable.
+ *
+ * Call it at the top of a test file, or in a setup file to apply it to every
+ * test.
+ *
+ * @example
+ * ```ts
+ * // vitest.setup.ts
+ * import { setupFactoryTests } from "@aklinker1/zero-factory/vitest";
+ *
+ * setupFactoryTests();
+ * ```
+ */
+export function setupFactoryTests(options?: FactoryTestOptions): void {
+  beforeEach((context) => {
+    startFactoryTest(options);
+    context.onTestFailed(() => {
+      console.error(getFactoryTestReport());
+    });
+  });
+}
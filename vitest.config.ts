@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Bun runs the other tests. Vitest only runs tests for the vitest integration,
+// which `bun test` can't run since it replaces "vitest" with "bun:test"
+export default defineConfig({
+  test: {
+    include: ["src/**/*.vitest.ts"],
+  },
+});